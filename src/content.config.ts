@@ -61,7 +61,14 @@ const blockSchema = z.object({
     type: z.string(),
     label: z.string(),
     default: z.any().optional(),
+    options: z.array(z.object({
+      value: z.string(),
+      label: z.string(),
+    })).optional(),
   })).default([]),
+  blocks: z.array(z.object({
+    type: z.string(),
+  })).optional(),
 });
 
 // Metaobject schema
@@ -0,0 +1,6 @@
+-- Add section_group column to project_sections for section group membership
+-- NULL means the section belongs to templates; 'header-group' / 'footer-group' place it in the layout's section groups
+ALTER TABLE project_sections ADD COLUMN section_group TEXT DEFAULT NULL;
+
+-- Create index for faster group lookups
+CREATE INDEX IF NOT EXISTS idx_project_sections_group ON project_sections(project_id, section_group);
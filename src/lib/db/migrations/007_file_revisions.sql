@@ -0,0 +1,16 @@
+-- File revision history for project_files
+-- Each row is a snapshot of a file after a write; content is NULL when the write deleted the file
+CREATE TABLE IF NOT EXISTS project_file_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  content TEXT,
+  content_type TEXT DEFAULT 'text/plain',
+  author TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- Create indexes for history listing and point-in-time lookups
+CREATE INDEX IF NOT EXISTS idx_file_revisions_file ON project_file_revisions(project_id, file_path, created_at);
+CREATE INDEX IF NOT EXISTS idx_file_revisions_project ON project_file_revisions(project_id, created_at);
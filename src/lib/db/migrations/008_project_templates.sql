@@ -0,0 +1,6 @@
+-- Add is_template column to projects for reusable starter templates
+-- Template projects are offered as starting points in the new-project wizard
+ALTER TABLE projects ADD COLUMN is_template INTEGER DEFAULT 0;
+
+-- Create index for listing templates
+CREATE INDEX IF NOT EXISTS idx_projects_template ON projects(is_template);
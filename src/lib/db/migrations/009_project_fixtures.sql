@@ -0,0 +1,8 @@
+-- Per-project mock fixtures used in place of the default preview data
+-- data holds a JSON document with optional shop, products, collections, menus, customer and cart keys
+CREATE TABLE IF NOT EXISTS project_fixtures (
+  project_id TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  data TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
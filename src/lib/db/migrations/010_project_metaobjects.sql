@@ -0,0 +1,10 @@
+-- Metaobject definitions from the library used by a project
+-- Previews get mock entries for each one; the export lists them for setting up the store
+CREATE TABLE IF NOT EXISTS project_metaobjects (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  metaobject_slug TEXT NOT NULL,
+  position INTEGER DEFAULT 0,
+  added_at TEXT NOT NULL,
+  UNIQUE(project_id, metaobject_slug)
+);
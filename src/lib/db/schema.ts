@@ -9,6 +9,7 @@ export interface ProjectRow {
   status: 'active' | 'draft' | 'archived';
   base_theme: string;
   applied_preset: string | null;
+  is_template: number; // 1 when the project is offered as a starter template
   created_at: string;
   updated_at: string;
 }
@@ -20,6 +21,7 @@ export interface ProjectSectionRow {
   position: number;
   settings: string; // JSON string of section settings (setting values)
   custom_schema: string | null; // JSON string of custom schema definition (field definitions)
+  section_group: string | null; // Section group name ('header-group', 'footer-group') or null for template sections
   added_at: string;
 }
 
@@ -31,6 +33,14 @@ export interface ProjectBlockRow {
   added_at: string;
 }
 
+export interface ProjectMetaobjectRow {
+  id: number;
+  project_id: string;
+  metaobject_slug: string;
+  position: number;
+  added_at: string;
+}
+
 export interface ProjectFileRow {
   id: number;
   project_id: string;
@@ -41,6 +51,17 @@ export interface ProjectFileRow {
   updated_at: string;
 }
 
+export interface ProjectFileRevisionRow {
+  id: number;
+  project_id: string;
+  file_path: string;
+  content: string | null; // NULL when the revision records a deletion
+  content_type: string;
+  author: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
 export interface VariantRow {
   id: string;
   slug: string;
@@ -78,6 +99,13 @@ export interface ProjectPresetRow {
   applied_at: string | null;
 }
 
+export interface ProjectFixturesRow {
+  project_id: string;
+  data: string; // JSON string of MockFixtures
+  created_at: string;
+  updated_at: string;
+}
+
 export interface RenderedPreviewRow {
   id: number;
   cache_key: string;
@@ -100,6 +128,7 @@ export interface ProjectData {
   status: 'active' | 'draft' | 'archived';
   baseTheme: string;
   appliedPreset?: string;
+  isTemplate?: boolean;
   createdAt: string;
   updatedAt: string;
   sections: string[];
@@ -126,6 +155,7 @@ export interface SectionSetting {
   label: string;
   default?: unknown;
   info?: string;
+  options?: { value: string; label: string }[]; // select and radio settings
 }
 
 export interface SectionBlock {
@@ -135,6 +165,17 @@ export interface SectionBlock {
   settings?: SectionSetting[];
 }
 
+// Library theme block (library/blocks/*.json), exported as blocks/{slug}.liquid
+export interface BlockData {
+  name: string;
+  slug: string;
+  description?: string;
+  category: string;
+  settings: SectionSetting[];
+  // Child block types this block accepts ({ type: '@theme' } for any theme block)
+  blocks?: { type: string }[];
+}
+
 export interface SectionData {
   name: string;
   slug: string;
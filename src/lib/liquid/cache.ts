@@ -7,15 +7,18 @@ export interface CacheEntry {
   renderTimeMs: number;
 }
 
-// Generate a cache key from section slug, preset, and optional settings hash
+// Generate a cache key from section slug, preset, and optional settings hash.
+// contextHash covers anything else that changes the output, such as project files
 export function generateCacheKey(
   sectionSlug: string,
   presetSlug?: string,
-  settingsHash?: string
+  settingsHash?: string,
+  contextHash?: string
 ): string {
   const parts = [sectionSlug];
   if (presetSlug) parts.push(presetSlug);
   if (settingsHash) parts.push(settingsHash);
+  if (contextHash) parts.push(contextHash);
   return parts.join(':');
 }
 
@@ -0,0 +1,291 @@
+// Color parsing and math behind Shopify's color filters, shared with the preset tooling
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl';
+
+export interface Color {
+  // Channels 0-255, alpha 0-1
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+  // Filters answer in the format they were given
+  format: ColorFormat;
+}
+
+export interface HslColor {
+  hue: number;
+  saturation: number;
+  lightness: number;
+}
+
+export type ColorComponent = 'red' | 'green' | 'blue' | 'alpha' | 'hue' | 'saturation' | 'lightness';
+
+export const COLOR_COMPONENTS: ColorComponent[] = ['red', 'green', 'blue', 'alpha', 'hue', 'saturation', 'lightness'];
+
+const HEX_PATTERN = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_PATTERN = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, decimals: number = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function isColorComponent(value: unknown): value is ColorComponent {
+  return typeof value === 'string' && (COLOR_COMPONENTS as string[]).includes(value);
+}
+
+function parseHex(value: string): Color | null {
+  const match = value.match(HEX_PATTERN);
+  if (!match) return null;
+
+  const digits = match[1].length <= 4
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+
+  return {
+    red: parseInt(digits.slice(0, 2), 16),
+    green: parseInt(digits.slice(2, 4), 16),
+    blue: parseInt(digits.slice(4, 6), 16),
+    alpha: digits.length === 8 ? round(parseInt(digits.slice(6, 8), 16) / 255, 2) : 1,
+    format: 'hex',
+  };
+}
+
+// "50%" -> 0.5 of the given scale, "128" -> 128
+function parseChannel(value: string, scale: number): number {
+  return value.endsWith('%') ? (parseFloat(value) / 100) * scale : parseFloat(value);
+}
+
+// rgb(122, 181, 92), rgba(122 181 92 / 50%), hsl(100, 38%, 54%), hsla(100deg 38% 54% / 0.5)
+function parseFunction(value: string): Color | null {
+  const match = value.match(FUNCTION_PATTERN);
+  if (!match) return null;
+
+  const args = match[2].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (args.length < 3 || args.length > 4) return null;
+
+  const alpha = args[3] !== undefined ? parseChannel(args[3], 1) : 1;
+
+  if (match[1].toLowerCase().startsWith('rgb')) {
+    const [red, green, blue] = args.slice(0, 3).map(arg => parseChannel(arg, 255));
+    if ([red, green, blue, alpha].some(isNaN)) return null;
+    return {
+      red: clamp(Math.round(red), 0, 255),
+      green: clamp(Math.round(green), 0, 255),
+      blue: clamp(Math.round(blue), 0, 255),
+      alpha: clamp(alpha, 0, 1),
+      format: 'rgb',
+    };
+  }
+
+  const hue = parseFloat(args[0]);
+  const saturation = parseFloat(args[1]);
+  const lightness = parseFloat(args[2]);
+  if ([hue, saturation, lightness, alpha].some(isNaN)) return null;
+  return { ...hslToRgb({ hue, saturation, lightness }), alpha: clamp(alpha, 0, 1), format: 'hsl' };
+}
+
+// Hex (#7ab55c, #7ab55c80, 7ab55c), rgb()/rgba() and hsl()/hsla() strings; null for anything else
+export function parseColor(value: unknown): Color | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (trimmed.toLowerCase() === 'transparent') {
+    return { red: 0, green: 0, blue: 0, alpha: 0, format: 'rgb' };
+  }
+  return parseHex(trimmed) ?? parseFunction(trimmed);
+}
+
+export function isColor(value: unknown): boolean {
+  return parseColor(value) !== null;
+}
+
+// Hue in degrees, saturation and lightness in percent
+export function rgbToHsl(color: Pick<Color, 'red' | 'green' | 'blue'>): HslColor {
+  const r = color.red / 255;
+  const g = color.green / 255;
+  const b = color.blue / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+
+  if (max === min) {
+    return { hue: 0, saturation: 0, lightness: lightness * 100 };
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue: number;
+  if (max === r) {
+    hue = (g - b) / delta + (g < b ? 6 : 0);
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+
+  return { hue: hue * 60, saturation: saturation * 100, lightness: lightness * 100 };
+}
+
+export function hslToRgb(hsl: HslColor): Pick<Color, 'red' | 'green' | 'blue'> {
+  const h = (((hsl.hue % 360) + 360) % 360) / 360;
+  const s = clamp(hsl.saturation, 0, 100) / 100;
+  const l = clamp(hsl.lightness, 0, 100) / 100;
+
+  if (s === 0) {
+    const gray = Math.round(l * 255);
+    return { red: gray, green: gray, blue: gray };
+  }
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const offset = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (offset < 1 / 6) return p + (q - p) * 6 * offset;
+    if (offset < 1 / 2) return q;
+    if (offset < 2 / 3) return p + (q - p) * (2 / 3 - offset) * 6;
+    return p;
+  };
+
+  return {
+    red: Math.round(channel(h + 1 / 3) * 255),
+    green: Math.round(channel(h) * 255),
+    blue: Math.round(channel(h - 1 / 3) * 255),
+  };
+}
+
+function toHexChannel(value: number): string {
+  return clamp(Math.round(value), 0, 255).toString(16).padStart(2, '0');
+}
+
+// "#7ab55c"; alpha is dropped, as color_to_hex does
+export function toHex(color: Color): string {
+  return `#${toHexChannel(color.red)}${toHexChannel(color.green)}${toHexChannel(color.blue)}`;
+}
+
+// "rgb(122, 181, 92)", or "rgba(122, 181, 92, 0.5)" when translucent
+export function toRgb(color: Color): string {
+  const channels = `${Math.round(color.red)}, ${Math.round(color.green)}, ${Math.round(color.blue)}`;
+  return color.alpha < 1 ? `rgba(${channels}, ${round(color.alpha, 2)})` : `rgb(${channels})`;
+}
+
+// "hsl(100, 38%, 54%)", or "hsla(100, 38%, 54%, 0.5)" when translucent
+export function toHsl(color: Color): string {
+  const hsl = rgbToHsl(color);
+  const values = `${Math.round(hsl.hue)}, ${Math.round(hsl.saturation)}%, ${Math.round(hsl.lightness)}%`;
+  return color.alpha < 1 ? `hsla(${values}, ${round(color.alpha, 2)})` : `hsl(${values})`;
+}
+
+// Serialize in the color's own format. Hex can't carry alpha, so translucent hex colors come back as rgba.
+export function formatColor(color: Color): string {
+  if (color.format === 'hsl') return toHsl(color);
+  if (color.format === 'rgb' || color.alpha < 1) return toRgb(color);
+  return toHex(color);
+}
+
+export function getColorComponent(color: Color, component: ColorComponent): number {
+  switch (component) {
+    case 'red':
+    case 'green':
+    case 'blue':
+      return color[component];
+    case 'alpha':
+      return round(color.alpha, 2);
+    default:
+      return Math.round(rgbToHsl(color)[component]);
+  }
+}
+
+// color_modify: set one component. Channels are 0-255, hue 0-360, saturation and lightness 0-100, alpha 0-1.
+export function modifyColor(color: Color, component: ColorComponent, value: number): Color {
+  switch (component) {
+    case 'red':
+    case 'green':
+    case 'blue':
+      return { ...color, [component]: clamp(Math.round(value), 0, 255) };
+    case 'alpha':
+      return { ...color, alpha: clamp(value, 0, 1) };
+    default: {
+      const hsl = rgbToHsl(color);
+      return { ...color, ...hslToRgb({ ...hsl, [component]: value }) };
+    }
+  }
+}
+
+// Shift one HSL component by an amount, as color_lighten, color_darken, color_saturate and color_desaturate do
+function adjustHsl(color: Color, component: 'saturation' | 'lightness', amount: number): Color {
+  const hsl = rgbToHsl(color);
+  return { ...color, ...hslToRgb({ ...hsl, [component]: clamp(hsl[component] + amount, 0, 100) }) };
+}
+
+export function lightenColor(color: Color, amount: number): Color {
+  return adjustHsl(color, 'lightness', amount);
+}
+
+export function darkenColor(color: Color, amount: number): Color {
+  return adjustHsl(color, 'lightness', -amount);
+}
+
+export function saturateColor(color: Color, amount: number): Color {
+  return adjustHsl(color, 'saturation', amount);
+}
+
+export function desaturateColor(color: Color, amount: number): Color {
+  return adjustHsl(color, 'saturation', -amount);
+}
+
+// color_mix: weight is the percentage of the first color, applied to every channel and alpha
+export function mixColors(first: Color, second: Color, weight: number): Color {
+  const p = clamp(weight, 0, 100) / 100;
+  const mix = (a: number, b: number) => a * p + b * (1 - p);
+
+  return {
+    red: Math.round(mix(first.red, second.red)),
+    green: Math.round(mix(first.green, second.green)),
+    blue: Math.round(mix(first.blue, second.blue)),
+    alpha: round(mix(first.alpha, second.alpha), 2),
+    format: first.format,
+  };
+}
+
+// Perceived brightness (0-255) from the W3C accessibility formula, used by color_brightness
+export function getColorBrightness(color: Color): number {
+  return (color.red * 299 + color.green * 587 + color.blue * 114) / 1000;
+}
+
+export function getBrightnessDifference(first: Color, second: Color): number {
+  return Math.abs(getColorBrightness(first) - getColorBrightness(second));
+}
+
+// Sum of the per-channel differences, used by color_difference (500+ reads well)
+export function getColorDifference(first: Color, second: Color): number {
+  return Math.abs(first.red - second.red)
+    + Math.abs(first.green - second.green)
+    + Math.abs(first.blue - second.blue);
+}
+
+// WCAG 2 relative luminance (0-1)
+export function getRelativeLuminance(color: Color): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(color.red) + 0.7152 * linear(color.green) + 0.0722 * linear(color.blue);
+}
+
+// WCAG 2 contrast ratio (1-21)
+export function getContrastRatio(first: Color, second: Color): number {
+  const lighter = Math.max(getRelativeLuminance(first), getRelativeLuminance(second));
+  const darker = Math.min(getRelativeLuminance(first), getRelativeLuminance(second));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Black or white, whichever reads better on the given background; white when it can't be parsed
+export function getReadableTextColor(background: string): string {
+  const color = parseColor(background);
+  if (!color) return '#ffffff';
+  return getColorBrightness(color) > 150 ? '#000000' : '#ffffff';
+}
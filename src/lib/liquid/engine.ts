@@ -1,7 +1,65 @@
-import { Liquid, type TagToken, type Context, type TopLevelToken, type Emitter } from 'liquidjs';
+import {
+  Liquid,
+  Hash,
+  evalToken,
+  type TagToken,
+  type Context,
+  type TopLevelToken,
+  type Emitter,
+  type Template,
+  type ValueToken,
+} from 'liquidjs';
+import { getLibrarySnippets } from './snippets';
+import { getLibraryThemeBlocks } from './theme-blocks';
+import { extractSchemaFromLiquid } from './schema';
+import { extractSettingsDefaults } from './mock-generator';
+import type { MockBlockContext, MockSectionContext } from './mock-data';
+import type { SectionSetting } from '../db/schema';
+import { getLibraryLocales, translate } from './locales';
+import type { ThemeLocales } from './locales';
+import { formatMoney, formatMoneyWithoutCurrency, formatMoneyWithoutTrailingZeros } from './money';
+import {
+  getPlaceholderImage,
+  parsePlaceholderUrl,
+  resizePlaceholderImage,
+  generatePlaceholderSVG,
+} from './placeholder';
+import { generateDefaultPagination, paginateItems } from './pagination';
+import {
+  parseColor,
+  isColorComponent,
+  toRgb,
+  toHsl,
+  toHex,
+  formatColor,
+  getColorComponent,
+  modifyColor,
+  lightenColor,
+  darkenColor,
+  saturateColor,
+  desaturateColor,
+  mixColors,
+  getColorBrightness,
+  getBrightnessDifference,
+  getColorDifference,
+  getContrastRatio,
+} from './color';
+import type { Color } from './color';
+import { asMockFont, generateFontFace, getFontUrl, modifyFont } from './fonts';
+import type { PaginateData } from './pagination';
+import { escapeHtml } from './html';
+
+export interface LiquidEngineOptions {
+  // Snippet sources keyed by name (e.g. 'price' for snippets/price.liquid)
+  snippets?: Record<string, string>;
+  // Locale files for the t filter; the base theme locales when omitted
+  locales?: ThemeLocales;
+  // Theme block sources keyed by type (e.g. 'heading' for blocks/heading.liquid)
+  blocks?: Record<string, string>;
+}
 
 // Create a Shopify-compatible Liquid engine
-export function createLiquidEngine(): Liquid {
+export function createLiquidEngine(options: LiquidEngineOptions = {}): Liquid {
   const engine = new Liquid({
     strictFilters: false,
     strictVariables: false,
@@ -12,15 +70,49 @@ export function createLiquidEngine(): Liquid {
   });
 
   // Register Shopify-specific tags
-  registerShopifyTags(engine);
+  registerShopifyTags(engine, options.snippets ?? {}, options.blocks ?? {});
 
   // Register Shopify-specific filters
-  registerShopifyFilters(engine);
+  registerShopifyFilters(engine, options.locales ?? getLibraryLocales());
 
   return engine;
 }
 
-function registerShopifyTags(engine: Liquid): void {
+// Parse the tokens of a block tag body up to its end tag
+function parseBlockBody(engine: Liquid, tagToken: TagToken, remainTokens: TopLevelToken[]): Template[] {
+  const templates: Template[] = [];
+  const endTag = `end${tagToken.name}`;
+  const stream = engine.parser
+    .parseStream(remainTokens)
+    .on('template', (template: Template) => templates.push(template))
+    .on(`tag:${endTag}`, () => stream.stop())
+    .on('end', () => {
+      throw new Error(`tag ${tagToken.getText()} not closed`);
+    });
+  stream.start();
+  return templates;
+}
+
+function registerShopifyTags(
+  engine: Liquid,
+  snippets: Record<string, string>,
+  themeBlocks: Record<string, string>
+): void {
+  // Parsed snippet templates, reused across renders of this engine
+  const parsedSnippets = new Map<string, Template[]>();
+
+  function getSnippetTemplates(name: string): Template[] | null {
+    const cached = parsedSnippets.get(name);
+    if (cached) return cached;
+
+    const source = snippets[name];
+    if (source === undefined) return null;
+
+    const templates = engine.parse(source, `snippets/${name}.liquid`);
+    parsedSnippets.set(name, templates);
+    return templates;
+  }
+
   // {% schema %} - Parse and ignore (metadata only, already extracted)
   engine.registerTag('schema', {
     parse(tagToken: TagToken, remainTokens: TopLevelToken[]) {
@@ -39,51 +131,187 @@ function registerShopifyTags(engine: Liquid): void {
   // {% style %} - Output CSS with scope
   engine.registerTag('style', {
     parse(tagToken: TagToken, remainTokens: TopLevelToken[]) {
-      this.content = [];
-      while (remainTokens.length) {
-        const token = remainTokens.shift();
-        if (token?.name === 'endstyle') break;
-        if (token) this.content.push(token);
-      }
+      this.templates = parseBlockBody(engine, tagToken, remainTokens);
     },
     *render(context: Context, emitter: Emitter) {
-      const content: string[] = [];
-      for (const token of this.content) {
-        const rendered = yield this.liquid.renderer.renderToken(token, context);
-        content.push(String(rendered ?? ''));
-      }
-      emitter.write(`<style>${content.join('')}</style>`);
+      const content: string = yield this.liquid.renderer.renderTemplates(this.templates, context);
+      emitter.write(`<style>${content}</style>`);
     },
   });
 
   // {% javascript %} - Output JS (deferred in real Shopify, inline in preview)
   engine.registerTag('javascript', {
     parse(tagToken: TagToken, remainTokens: TopLevelToken[]) {
-      this.content = [];
-      while (remainTokens.length) {
-        const token = remainTokens.shift();
-        if (token?.name === 'endjavascript') break;
-        if (token) this.content.push(token);
+      this.templates = parseBlockBody(engine, tagToken, remainTokens);
+    },
+    *render(context: Context, emitter: Emitter) {
+      const content: string = yield this.liquid.renderer.renderTemplates(this.templates, context);
+      emitter.write(`<script>${content}</script>`);
+    },
+  });
+
+  // {% render 'snippet', key: value %} / {% render 'snippet' for items as item %}
+  // Snippets get an isolated scope: only globals plus the arguments passed in
+  engine.registerTag('render', {
+    parse(tagToken: TagToken) {
+      const tokenizer = tagToken.tokenizer;
+      const file = tokenizer.readValue();
+      this.snippetName = file ? file.getText().replace(/['"]/g, '').trim() : '';
+
+      // Optional `with expr as alias` / `for expr as alias`
+      const begin = tokenizer.p;
+      tokenizer.skipBlank();
+      if (tokenizer.peek() === ',') tokenizer.advance();
+      tokenizer.skipBlank();
+      const keyword = tokenizer.readIdentifier().content;
+      let matched = false;
+      if (keyword === 'with' || keyword === 'for') {
+        tokenizer.skipBlank();
+        const value = tokenizer.peek() !== ':' ? tokenizer.readValue() : undefined;
+        if (value) {
+          tokenizer.skipBlank();
+          const beforeAs = tokenizer.p;
+          let alias: string | undefined;
+          if (tokenizer.readIdentifier().content === 'as') {
+            tokenizer.skipBlank();
+            alias = tokenizer.readIdentifier().content;
+          } else {
+            tokenizer.p = beforeAs;
+          }
+          this[keyword === 'with' ? 'withClause' : 'forClause'] = { value, alias };
+          matched = true;
+        }
       }
+      if (!matched) tokenizer.p = begin;
+
+      this.args = new Hash(tokenizer, engine.options.keyValueSeparator);
     },
     *render(context: Context, emitter: Emitter) {
-      const content: string[] = [];
-      for (const token of this.content) {
-        const rendered = yield this.liquid.renderer.renderToken(token, context);
-        content.push(String(rendered ?? ''));
+      const name: string = this.snippetName;
+      const templates = getSnippetTemplates(name);
+      if (!templates) {
+        // Mirrors Shopify's inline error for missing snippets
+        emitter.write(`Liquid error: Could not find asset snippets/${name}.liquid`);
+        return;
       }
-      emitter.write(`<script>${content.join('')}</script>`);
+
+      const childContext = context.spawn();
+      const scope = childContext.bottom() as Record<string, unknown>;
+      const args: Record<string, unknown> = yield this.args.render(context);
+      Object.assign(scope, args);
+
+      const withClause = this.withClause as { value: ValueToken; alias?: string } | undefined;
+      if (withClause) {
+        const value: unknown = yield evalToken(withClause.value, context);
+        scope[withClause.alias || name] = value;
+      }
+
+      const forClause = this.forClause as { value: ValueToken; alias?: string } | undefined;
+      if (forClause) {
+        const collection: unknown = yield evalToken(forClause.value, context);
+        const items: unknown[] = Array.isArray(collection) ? collection : collection == null ? [] : [collection];
+        const alias = forClause.alias || name;
+        for (let index = 0; index < items.length; index++) {
+          scope[alias] = items[index];
+          scope.forloop = {
+            length: items.length,
+            index: index + 1,
+            index0: index,
+            rindex: items.length - index,
+            rindex0: items.length - index - 1,
+            first: index === 0,
+            last: index === items.length - 1,
+          };
+          yield this.liquid.renderer.renderTemplates(templates, childContext, emitter);
+        }
+        return;
+      }
+
+      yield this.liquid.renderer.renderTemplates(templates, childContext, emitter);
     },
   });
 
-  // {% render 'snippet' %} - Render snippet (stub for preview)
-  engine.registerTag('render', {
+  // Parsed theme block templates and their setting defaults, reused across renders of this engine
+  const parsedBlocks = new Map<string, { templates: Template[]; defaults: Record<string, unknown> }>();
+
+  function getThemeBlock(type: string): { templates: Template[]; defaults: Record<string, unknown> } | null {
+    const cached = parsedBlocks.get(type);
+    if (cached) return cached;
+
+    const source = themeBlocks[type];
+    if (source === undefined) return null;
+
+    const schema = extractSchemaFromLiquid(source);
+    const settings = Array.isArray(schema?.settings) ? (schema.settings as SectionSetting[]) : [];
+    const parsed = {
+      templates: engine.parse(source, `blocks/${type}.liquid`),
+      defaults: extractSettingsDefaults(settings),
+    };
+    parsedBlocks.set(type, parsed);
+    return parsed;
+  }
+
+  // Render blocks/{type}.liquid with `block` and `section` in scope, like a snippet with an isolated scope.
+  // The block is kept in a register so a nested {% content_for 'blocks' %} renders its children.
+  function* renderThemeBlock(block: MockBlockContext, context: Context, emitter: Emitter): Generator<unknown, void, unknown> {
+    const themeBlock = getThemeBlock(block.type);
+    if (!themeBlock) {
+      emitter.write(`Liquid error: Could not find asset blocks/${block.type}.liquid`);
+      return;
+    }
+
+    const scopedBlock = { ...block, settings: { ...themeBlock.defaults, ...block.settings } };
+    const childContext = context.spawn({ block: scopedBlock, section: context.getSync(['section']) });
+    childContext.setRegister('themeBlock', scopedBlock);
+    yield engine.renderer.renderTemplates(themeBlock.templates, childContext, emitter);
+  }
+
+  // {% content_for 'blocks' %} - The section's (or enclosing theme block's) blocks, each from blocks/*.liquid
+  // {% content_for 'block', type: 'button', id: 'cta' %} - One static block, from the parent's blocks or its defaults
+  engine.registerTag('content_for', {
     parse(tagToken: TagToken) {
-      this.snippetName = tagToken.args.replace(/['"]/g, '').trim();
+      const tokenizer = tagToken.tokenizer;
+      const kind = tokenizer.readValue();
+      this.kind = kind ? kind.getText().replace(/['"]/g, '').trim() : '';
+      tokenizer.skipBlank();
+      if (tokenizer.peek() === ',') tokenizer.advance();
+      this.args = new Hash(tokenizer, engine.options.keyValueSeparator);
     },
-    render() {
-      // In preview mode, show placeholder for snippets
-      return `<!-- snippet: ${this.snippetName} -->`;
+    *render(context: Context, emitter: Emitter) {
+      const parent = context.getRegister('themeBlock') as Partial<MockBlockContext>;
+      const section = context.getSync(['section']) as MockSectionContext | undefined;
+      const siblings = (parent.type ? parent.blocks : section?.blocks) ?? [];
+
+      if (this.kind === 'blocks') {
+        for (const block of siblings) {
+          if (block.static) continue;
+          yield* renderThemeBlock(block, context, emitter);
+        }
+        return;
+      }
+
+      if (this.kind === 'block') {
+        const args: Record<string, unknown> = yield this.args.render(context);
+        const type = String(args.type ?? '');
+        const id = String(args.id ?? type);
+        if (!type) {
+          emitter.write("Liquid error: content_for 'block' requires a type");
+          return;
+        }
+
+        const stored = siblings.find(block => block.id === id && block.type === type);
+        const block: MockBlockContext = stored ?? {
+          id,
+          type,
+          settings: {},
+          static: true,
+          shopify_attributes: `data-shopify-editor-block='{"id":"${id}","type":"${type}"}'`,
+        };
+        yield* renderThemeBlock(block, context, emitter);
+        return;
+      }
+
+      emitter.write(`Liquid error: Unknown content_for type '${this.kind}'`);
     },
   });
 
@@ -97,13 +325,14 @@ function registerShopifyTags(engine: Liquid): void {
     },
   });
 
-  // {% sections 'group' %} - Section group (stub for preview)
+  // {% sections 'group' %} - Section group, pre-rendered into section_groups by the page renderer
   engine.registerTag('sections', {
     parse(tagToken: TagToken) {
       this.groupName = tagToken.args.replace(/['"]/g, '').trim();
     },
-    render() {
-      return `<!-- sections group: ${this.groupName} -->`;
+    render(context: Context) {
+      const groups = context.getSync(['section_groups']) as Record<string, string> | undefined;
+      return groups?.[this.groupName] ?? `<!-- sections group: ${this.groupName} -->`;
     },
   });
 
@@ -111,37 +340,69 @@ function registerShopifyTags(engine: Liquid): void {
   engine.registerTag('form', {
     parse(tagToken: TagToken, remainTokens: TopLevelToken[]) {
       this.formType = tagToken.args.replace(/['"]/g, '').split(',')[0].trim();
-      this.content = [];
-      while (remainTokens.length) {
-        const token = remainTokens.shift();
-        if (token?.name === 'endform') break;
-        if (token) this.content.push(token);
-      }
+      this.templates = parseBlockBody(engine, tagToken, remainTokens);
     },
     *render(context: Context, emitter: Emitter) {
       emitter.write(`<form class="shopify-form" data-form-type="${this.formType}">`);
-      for (const token of this.content) {
-        const rendered = yield this.liquid.renderer.renderToken(token, context);
-        emitter.write(String(rendered ?? ''));
-      }
+      yield this.liquid.renderer.renderTemplates(this.templates, context, emitter);
       emitter.write('</form>');
     },
   });
 
-  // {% paginate %} - Pagination (stub)
+  // {% paginate collection.products by 12 %} - Slices the array to the current page and exposes `paginate`.
+  // The page comes from the current_page global, set from the preview request.
   engine.registerTag('paginate', {
     parse(tagToken: TagToken, remainTokens: TopLevelToken[]) {
-      this.content = [];
-      while (remainTokens.length) {
-        const token = remainTokens.shift();
-        if (token?.name === 'endpaginate') break;
-        if (token) this.content.push(token);
+      const tokenizer = tagToken.tokenizer;
+      this.collection = tokenizer.readValue();
+      if (!this.collection) {
+        throw new Error(`paginate requires an array: ${tagToken.getText()}`);
+      }
+      this.collectionPath = this.collection.getText().trim();
+      tokenizer.skipBlank();
+      if (tokenizer.readIdentifier().content !== 'by') {
+        throw new Error(`paginate requires "by": ${tagToken.getText()}`);
       }
+      tokenizer.skipBlank();
+      this.pageSize = tokenizer.readValue();
+      tokenizer.skipBlank();
+      if (tokenizer.peek() === ',') tokenizer.advance();
+      this.args = new Hash(tokenizer, engine.options.keyValueSeparator);
+      this.templates = parseBlockBody(engine, tagToken, remainTokens);
     },
     *render(context: Context, emitter: Emitter) {
-      for (const token of this.content) {
-        const rendered = yield this.liquid.renderer.renderToken(token, context);
-        emitter.write(String(rendered ?? ''));
+      const path: string[] = /^[\w-]+(\.[\w-]+)*$/.test(this.collectionPath) ? this.collectionPath.split('.') : [];
+      const collection: unknown = yield evalToken(this.collection, context);
+      const pageSizeValue: unknown = yield evalToken(this.pageSize, context);
+      const pageSize = Number(pageSizeValue);
+      const args: Record<string, unknown> = yield this.args.render(context);
+
+      if (!Array.isArray(collection) || path.length === 0) {
+        emitter.write(`Liquid error: Array '${this.collectionPath}' is not paginateable.`);
+        return;
+      }
+
+      // Page links point at the paginated object's own page (collection.url, search.url) when it has one
+      const [rootName, ...props] = path;
+      const root = context.getSync([rootName]) as Record<string, unknown> | undefined;
+      const request = context.getSync(['request']) as { path?: string } | undefined;
+      const baseUrl = props.length > 0 && typeof root?.url === 'string' ? root.url : request?.path ?? '/';
+
+      const currentPage = Number(context.getSync(['current_page'])) || 1;
+      const windowSize = args.window_size !== undefined ? Number(args.window_size) : undefined;
+      const { items, paginate } = paginateItems(collection, pageSize, currentPage, baseUrl, { windowSize });
+
+      // Shallow-copy each object along the path so the sliced array only exists inside the tag
+      const replaceAt = (value: unknown, keys: string[]): unknown =>
+        keys.length === 0
+          ? items
+          : { ...(value as Record<string, unknown>), [keys[0]]: replaceAt((value as Record<string, unknown>)?.[keys[0]], keys.slice(1)) };
+
+      context.push({ [rootName]: replaceAt(root, props), paginate });
+      try {
+        yield engine.renderer.renderTemplates(this.templates, context, emitter);
+      } finally {
+        context.pop();
       }
     },
   });
@@ -157,21 +418,64 @@ function registerShopifyTags(engine: Liquid): void {
   // {% liquid %} - Multi-line liquid (already supported by liquidjs)
 }
 
-function registerShopifyFilters(engine: Liquid): void {
-  // Image URL filter
-  engine.registerFilter('image_url', (src: string, options?: { width?: number; height?: number }) => {
-    if (!src) return getPlaceholderImage(400, 400);
-    if (src.startsWith('http')) return src;
-    const width = options?.width || 400;
-    const height = options?.height || width;
-    return getPlaceholderImage(width, height);
-  });
-
-  // Image tag filter
-  engine.registerFilter('image_tag', (src: string, alt?: string) => {
+function registerShopifyFilters(engine: Liquid, locales: ThemeLocales): void {
+  // Image URL filter ({{ image | image_url: width: 600, height: 400, crop: 'center' }})
+  engine.registerFilter('image_url', (input: unknown, ...args: unknown[]) => {
+    // Accept image objects (product.featured_image) as well as URL strings
+    const src = typeof input === 'object' && input !== null
+      ? (input as { src?: string; url?: string }).src ?? (input as { url?: string }).url
+      : input;
+    const options = getKeywordArgs(args);
+    const resize = {
+      width: Number(options.width) || undefined,
+      height: Number(options.height) || undefined,
+      crop: typeof options.crop === 'string' ? options.crop : undefined,
+    };
+
+    if (typeof src === 'string' && src.startsWith('http')) return src;
+    if (typeof src === 'string' && parsePlaceholderUrl(src)) return resizePlaceholderImage(src, resize);
+
+    // Blank settings and shopify:// references have no file to show in previews
+    return resizePlaceholderImage(getPlaceholderImage(resize.width || 400, resize.height || resize.width || 400), resize);
+  });
+
+  // Image tag filter; alt can be positional or a keyword argument
+  engine.registerFilter('image_tag', (src: string, ...args: unknown[]) => {
     const url = typeof src === 'string' ? src : getPlaceholderImage(400, 400);
-    const altText = alt || 'Image';
-    return `<img src="${url}" alt="${escapeHtml(altText)}" loading="lazy" />`;
+    const options = getKeywordArgs(args);
+    const positionalAlt = args.find(arg => typeof arg === 'string');
+    const altText = String(options.alt ?? positionalAlt ?? 'Image');
+
+    // Placeholders know their size, which keeps layouts from shifting
+    const size = parsePlaceholderUrl(url);
+    const width = options.width ?? size?.width;
+    const height = options.height ?? size?.height;
+
+    const attributes = [
+      `src="${escapeHtml(url)}"`,
+      `alt="${escapeHtml(altText)}"`,
+      width ? `width="${escapeHtml(String(width))}"` : '',
+      height ? `height="${escapeHtml(String(height))}"` : '',
+      options.class ? `class="${escapeHtml(String(options.class))}"` : '',
+      `loading="${escapeHtml(String(options.loading ?? 'lazy'))}"`,
+    ].filter(Boolean);
+    return `<img ${attributes.join(' ')} />`;
+  });
+
+  // Inline placeholder artwork ({{ 'image' | placeholder_svg_tag: 'css-class' }})
+  engine.registerFilter('placeholder_svg_tag', (name: string, className?: string) => {
+    const svg = generatePlaceholderSVG({ width: 525, height: 525, label: String(name || 'image') });
+    return className ? svg.replace('<svg ', `<svg class="${escapeHtml(className)}" `) : svg;
+  });
+
+  // Page links for the enclosing {% paginate %} ({{ paginate | default_pagination: next: 'Older' }})
+  engine.registerFilter('default_pagination', (paginate: PaginateData | undefined, ...args: unknown[]) => {
+    const options = getKeywordArgs(args);
+    return generateDefaultPagination(paginate, {
+      next: options.next !== undefined ? String(options.next) : undefined,
+      previous: options.previous !== undefined ? String(options.previous) : undefined,
+      anchor: options.anchor !== undefined ? String(options.anchor) : undefined,
+    });
   });
 
   // Asset URL filter
@@ -194,32 +498,29 @@ function registerShopifyFilters(engine: Liquid): void {
     return `<script src="${escapeHtml(url)}"></script>`;
   });
 
-  // Money filters
-  engine.registerFilter('money', (cents: number) => {
-    const dollars = (cents / 100).toFixed(2);
-    return `$${dollars}`;
+  // Money filters, formatted with the shop's money formats so previews can switch currency
+  engine.registerFilter('money', function (this: { context: Context }, cents: number) {
+    return formatMoney(cents, getMoneyFormat(this.context, 'money_format'));
   });
 
-  engine.registerFilter('money_with_currency', (cents: number) => {
-    const dollars = (cents / 100).toFixed(2);
-    return `$${dollars} USD`;
+  engine.registerFilter('money_with_currency', function (this: { context: Context }, cents: number) {
+    return formatMoney(cents, getMoneyFormat(this.context, 'money_with_currency_format'));
   });
 
-  engine.registerFilter('money_without_currency', (cents: number) => {
-    const dollars = (cents / 100).toFixed(2);
-    return `$${dollars}`;
+  engine.registerFilter('money_without_currency', function (this: { context: Context }, cents: number) {
+    return formatMoneyWithoutCurrency(cents, getMoneyFormat(this.context, 'money_format'));
   });
 
-  engine.registerFilter('money_without_trailing_zeros', (cents: number) => {
-    const dollars = cents / 100;
-    return `$${dollars % 1 === 0 ? dollars.toFixed(0) : dollars.toFixed(2)}`;
+  engine.registerFilter('money_without_trailing_zeros', function (this: { context: Context }, cents: number) {
+    return formatMoneyWithoutTrailingZeros(cents, getMoneyFormat(this.context, 'money_format'));
   });
 
-  // Translation filter (returns key or default)
-  engine.registerFilter('t', (key: string, vars?: Record<string, unknown>) => {
-    // In preview mode, just return the key or use vars as fallback
-    if (vars && vars.default) return String(vars.default);
-    return key;
+  // Translation filter, in the locale of request.locale. Keyword arguments
+  // ({{ 'general.page' | t: page: 2 }}) arrive as [name, value] pairs.
+  engine.registerFilter('t', function (this: { context: Context }, key: string, ...args: unknown[]) {
+    const vars = getKeywordArgs(args);
+    const locale = this.context.getSync(['request', 'locale', 'iso_code']);
+    return translate(locales, typeof locale === 'string' ? locale : undefined, String(key), vars);
   });
 
   // Handle filter
@@ -267,47 +568,92 @@ function registerShopifyFilters(engine: Liquid): void {
     return `/collections/${collection?.handle || 'all'}`;
   });
 
-  // Font filters
-  engine.registerFilter('font_face', (font: { family?: string; style?: string; weight?: number }) => {
+  // Font filters, on font_picker values from the bundled font catalog
+  engine.registerFilter('font_face', (value: unknown, ...args: unknown[]) => {
+    const font = asMockFont(value);
     if (!font) return '';
-    return `@font-face { font-family: "${font.family || 'sans-serif'}"; }`;
+    const { font_display } = getKeywordArgs(args);
+    return generateFontFace(font, { fontDisplay: typeof font_display === 'string' ? font_display : undefined });
+  });
+
+  engine.registerFilter('font_url', (value: unknown) => {
+    const font = asMockFont(value);
+    return font ? getFontUrl(font) : '';
+  });
+
+  engine.registerFilter('font_modify', (value: unknown, property: string, setting: unknown) => {
+    const font = asMockFont(value);
+    return font ? modifyFont(font, property, setting) : null;
+  });
+
+  // Color filters. Colors are parsed from hex, rgb() or hsl() strings and come back in the
+  // same format; anything unparseable passes through unchanged so previews still render.
+  const withColor = (value: unknown, transform: (color: Color) => string) => {
+    const color = parseColor(value);
+    return color ? transform(color) : value;
+  };
+
+  engine.registerFilter('color_to_rgb', (value: unknown) => withColor(value, toRgb));
+
+  engine.registerFilter('color_to_hsl', (value: unknown) => withColor(value, toHsl));
+
+  engine.registerFilter('color_to_hex', (value: unknown) => withColor(value, toHex));
+
+  engine.registerFilter('color_extract', (value: unknown, component: string) => {
+    const color = parseColor(value);
+    if (!color || !isColorComponent(component)) return '';
+    return getColorComponent(color, component);
+  });
+
+  engine.registerFilter('color_modify', (value: unknown, component: string, amount: number) => {
+    const delta = Number(amount);
+    if (!isColorComponent(component) || !Number.isFinite(delta)) return value;
+    return withColor(value, color => formatColor(modifyColor(color, component, delta)));
   });
 
-  engine.registerFilter('font_url', (font: { family?: string }) => {
-    return `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font?.family || 'Inter')}`;
+  engine.registerFilter('color_lighten', (value: unknown, amount: number) => {
+    return withColor(value, color => formatColor(lightenColor(color, Number(amount) || 0)));
   });
 
-  engine.registerFilter('font_modify', (font: unknown, property: string, value: unknown) => {
-    return font;
+  engine.registerFilter('color_darken', (value: unknown, amount: number) => {
+    return withColor(value, color => formatColor(darkenColor(color, Number(amount) || 0)));
   });
 
-  // Color filters
-  engine.registerFilter('color_to_rgb', (color: string) => {
-    return color; // Return as-is for preview
+  engine.registerFilter('color_saturate', (value: unknown, amount: number) => {
+    return withColor(value, color => formatColor(saturateColor(color, Number(amount) || 0)));
   });
 
-  engine.registerFilter('color_to_hsl', (color: string) => {
-    return color;
+  engine.registerFilter('color_desaturate', (value: unknown, amount: number) => {
+    return withColor(value, color => formatColor(desaturateColor(color, Number(amount) || 0)));
   });
 
-  engine.registerFilter('color_modify', (color: string, property: string, value: number) => {
-    return color;
+  engine.registerFilter('color_mix', (value: unknown, other: unknown, weight: number) => {
+    const second = parseColor(other);
+    if (!second) return value;
+    return withColor(value, color => formatColor(mixColors(color, second, Number(weight ?? 50))));
   });
 
-  engine.registerFilter('color_lighten', (color: string, amount: number) => {
-    return color;
+  engine.registerFilter('color_brightness', (value: unknown) => {
+    const color = parseColor(value);
+    return color ? Math.round(getColorBrightness(color) * 100) / 100 : 0;
   });
 
-  engine.registerFilter('color_darken', (color: string, amount: number) => {
-    return color;
+  engine.registerFilter('brightness_difference', (value: unknown, other: unknown) => {
+    const first = parseColor(value);
+    const second = parseColor(other);
+    return first && second ? Math.round(getBrightnessDifference(first, second)) : 0;
   });
 
-  engine.registerFilter('brightness_difference', (color1: string, color2: string) => {
-    return 100;
+  engine.registerFilter('color_difference', (value: unknown, other: unknown) => {
+    const first = parseColor(value);
+    const second = parseColor(other);
+    return first && second ? getColorDifference(first, second) : 0;
   });
 
-  engine.registerFilter('color_contrast', (color1: string, color2: string) => {
-    return 4.5;
+  engine.registerFilter('color_contrast', (value: unknown, other: unknown) => {
+    const first = parseColor(value);
+    const second = parseColor(other);
+    return first && second ? Math.round(getContrastRatio(first, second) * 10) / 10 : 0;
   });
 
   // String filters
@@ -372,19 +718,18 @@ function registerShopifyFilters(engine: Liquid): void {
   });
 }
 
-// Helper function to get placeholder images
-function getPlaceholderImage(width: number, height: number): string {
-  return `https://placehold.co/${width}x${height}/e2e8f0/64748b?text=Preview`;
+// shop.money_format or shop.money_with_currency_format, USD when the context has no shop
+function getMoneyFormat(context: Context, name: 'money_format' | 'money_with_currency_format'): string {
+  const format = context.getSync(['shop', name]);
+  if (typeof format === 'string' && format) return format;
+  return name === 'money_format' ? '${{amount}}' : '${{amount}} USD';
 }
 
-// Helper to escape HTML
-function escapeHtml(str: string): string {
-  return String(str)
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
+// Keyword filter arguments ({{ x | f: width: 400 }}) arrive as [name, value] pairs
+function getKeywordArgs(args: unknown[]): Record<string, unknown> {
+  return Object.fromEntries(
+    args.filter((arg): arg is [string, unknown] => Array.isArray(arg) && arg.length === 2 && typeof arg[0] === 'string')
+  );
 }
 
 // Export singleton instance
@@ -392,7 +737,7 @@ let engineInstance: Liquid | null = null;
 
 export function getLiquidEngine(): Liquid {
   if (!engineInstance) {
-    engineInstance = createLiquidEngine();
+    engineInstance = createLiquidEngine({ snippets: getLibrarySnippets(), blocks: getLibraryThemeBlocks() });
   }
   return engineInstance;
 }
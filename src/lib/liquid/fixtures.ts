@@ -0,0 +1,497 @@
+import type {
+  RenderContext,
+  MockProductData,
+  MockCollectionData,
+  MockImageData,
+  MockVariantData,
+  MockCustomer,
+  MockCartItem,
+  MockLinkData,
+  MockMenuData,
+  MockShopData,
+} from './mock-data';
+import { generateMockCart, generateMockCartItem, generateMockCollection, generateMockImage } from './mock-generator';
+import { setPreviewCurrency } from './money';
+
+// Project fixtures describe a catalog in a compact, hand-editable shape.
+// Prices are in cents, like the values Liquid sees.
+
+export interface FixtureImage {
+  src: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface FixtureVariant {
+  title?: string;
+  sku?: string;
+  barcode?: string;
+  price?: number;
+  compare_at_price?: number | null;
+  available?: boolean;
+  inventory_quantity?: number;
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
+  image?: string;
+}
+
+export interface FixtureProduct {
+  handle: string;
+  title: string;
+  description?: string;
+  vendor?: string;
+  type?: string;
+  tags?: string[];
+  // Option names ("Size", "Color"), matching variant option1..option3
+  options?: string[];
+  images?: (string | FixtureImage)[];
+  variants?: FixtureVariant[];
+}
+
+export interface FixtureCollection {
+  handle: string;
+  title: string;
+  description?: string;
+  image?: string | FixtureImage;
+  // Product handles; every fixture product when omitted
+  products?: string[];
+}
+
+export interface FixtureLink {
+  title: string;
+  url: string;
+  links?: FixtureLink[];
+}
+
+export interface FixtureMenu {
+  title?: string;
+  links: FixtureLink[];
+}
+
+export interface FixtureCustomer {
+  first_name: string;
+  last_name: string;
+  email: string;
+  orders_count?: number;
+  total_spent?: number;
+  tags?: string[];
+}
+
+export interface FixtureCartItem {
+  product: string;
+  // Variant SKU or index in the product's variants
+  variant?: string | number;
+  quantity?: number;
+}
+
+export interface MockFixtures {
+  shop?: Partial<Pick<MockShopData['shop'], 'name' | 'description' | 'email' | 'url' | 'money_format' | 'money_with_currency_format'>> & {
+    currency?: string;
+  };
+  products?: FixtureProduct[];
+  collections?: FixtureCollection[];
+  // Keyed by menu handle ('main-menu', 'footer')
+  menus?: Record<string, FixtureMenu>;
+  // null previews a guest
+  customer?: FixtureCustomer | null;
+  cart?: { items: FixtureCartItem[] };
+}
+
+const FIXTURE_KEYS = ['shop', 'products', 'collections', 'menus', 'customer', 'cart'];
+
+function handleize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isImage(value: unknown): boolean {
+  return typeof value === 'string' || (isObject(value) && typeof value.src === 'string');
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateLinks(links: unknown[], path: string, errors: string[]): void {
+  links.forEach((link, i) => {
+    if (!isObject(link) || typeof link.title !== 'string' || typeof link.url !== 'string') {
+      errors.push(`${path}[${i}] needs a title and a url`);
+    } else if (link.links !== undefined) {
+      if (Array.isArray(link.links)) {
+        validateLinks(link.links, `${path}[${i}].links`, errors);
+      } else {
+        errors.push(`${path}[${i}].links must be an array`);
+      }
+    }
+  });
+}
+
+function validateProduct(product: Record<string, unknown>, path: string, errors: string[]): void {
+  for (const key of ['tags', 'options'] as const) {
+    if (product[key] !== undefined && !isStringArray(product[key])) {
+      errors.push(`${path}.${key} must be an array of strings`);
+    }
+  }
+
+  if (product.images !== undefined) {
+    if (!Array.isArray(product.images)) {
+      errors.push(`${path}.images must be an array`);
+    } else {
+      product.images.forEach((image, i) => {
+        if (!isImage(image)) errors.push(`${path}.images[${i}] must be a URL or an object with a src`);
+      });
+    }
+  }
+
+  if (product.variants !== undefined) {
+    if (!Array.isArray(product.variants)) {
+      errors.push(`${path}.variants must be an array`);
+    } else {
+      product.variants.forEach((variant, i) => {
+        if (!isObject(variant)) errors.push(`${path}.variants[${i}] must be an object`);
+      });
+    }
+  }
+}
+
+// Problems that would make a fixture document unusable, as readable messages
+export function validateFixtures(data: unknown): string[] {
+  if (!isObject(data)) return ['Fixtures must be a JSON object'];
+
+  const errors: string[] = [];
+  for (const key of Object.keys(data)) {
+    if (!FIXTURE_KEYS.includes(key)) {
+      errors.push(`Unknown fixture key "${key}" (expected ${FIXTURE_KEYS.join(', ')})`);
+    }
+  }
+
+  if (data.shop !== undefined && !isObject(data.shop)) errors.push('shop must be an object');
+
+  if (data.products !== undefined) {
+    if (!Array.isArray(data.products)) {
+      errors.push('products must be an array');
+    } else {
+      data.products.forEach((product, i) => {
+        if (!isObject(product) || typeof product.title !== 'string' || typeof product.handle !== 'string') {
+          errors.push(`products[${i}] needs a handle and a title`);
+        } else {
+          validateProduct(product, `products[${i}]`, errors);
+        }
+      });
+    }
+  }
+
+  if (data.collections !== undefined) {
+    if (!Array.isArray(data.collections)) {
+      errors.push('collections must be an array');
+    } else {
+      data.collections.forEach((collection, i) => {
+        if (!isObject(collection) || typeof collection.title !== 'string' || typeof collection.handle !== 'string') {
+          errors.push(`collections[${i}] needs a handle and a title`);
+        } else {
+          if (collection.image !== undefined && !isImage(collection.image)) {
+            errors.push(`collections[${i}].image must be a URL or an object with a src`);
+          }
+          if (collection.products !== undefined && !isStringArray(collection.products)) {
+            errors.push(`collections[${i}].products must be an array of product handles`);
+          }
+        }
+      });
+    }
+  }
+
+  if (data.menus !== undefined) {
+    if (!isObject(data.menus)) {
+      errors.push('menus must be an object keyed by menu handle');
+    } else {
+      for (const [handle, menu] of Object.entries(data.menus)) {
+        if (!isObject(menu) || !Array.isArray(menu.links)) {
+          errors.push(`menus.${handle} needs a links array`);
+        } else {
+          validateLinks(menu.links, `menus.${handle}.links`, errors);
+        }
+      }
+    }
+  }
+
+  if (data.customer !== undefined && data.customer !== null) {
+    if (!isObject(data.customer) || typeof data.customer.email !== 'string') {
+      errors.push('customer needs an email');
+    }
+  }
+
+  if (data.cart !== undefined) {
+    if (!isObject(data.cart) || !Array.isArray(data.cart.items)) {
+      errors.push('cart needs an items array');
+    } else {
+      data.cart.items.forEach((item, i) => {
+        if (!isObject(item) || typeof item.product !== 'string') {
+          errors.push(`cart.items[${i}] needs a product handle`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function buildImage(input: string | FixtureImage, index: number, alt: string): MockImageData {
+  const image = typeof input === 'string' ? { src: input } : input;
+  const width = image.width ?? 800;
+  const height = image.height ?? 800;
+  return {
+    id: 1000 + index,
+    src: image.src,
+    alt: image.alt ?? alt,
+    width,
+    height,
+    aspect_ratio: width / height,
+    position: index + 1,
+  };
+}
+
+function buildVariant(
+  input: FixtureVariant,
+  index: number,
+  product: { id: number; handle: string },
+  images: MockImageData[]
+): MockVariantData {
+  const id = product.id * 100 + index;
+  const options = [input.option1 ?? null, input.option2 ?? null, input.option3 ?? null];
+  const image = input.image ? images.find(img => img.src === input.image) ?? null : null;
+
+  return {
+    id,
+    title: input.title ?? (options.filter(Boolean).join(' / ') || 'Default Title'),
+    sku: input.sku ?? '',
+    barcode: input.barcode ?? '',
+    price: input.price ?? 0,
+    compare_at_price: input.compare_at_price ?? null,
+    available: input.available ?? true,
+    inventory_quantity: input.inventory_quantity ?? 10,
+    inventory_policy: 'deny',
+    option1: options[0],
+    option2: options[1],
+    option3: options[2],
+    image,
+    featured_image: image,
+    url: `/products/${product.handle}?variant=${id}`,
+    weight: 0,
+    weight_unit: 'g',
+  };
+}
+
+// Expand a fixture product into the full product object templates expect
+export function buildFixtureProduct(input: FixtureProduct, index: number = 0): MockProductData {
+  const id = 1000 + index;
+  const handle = input.handle || handleize(input.title);
+
+  const images = input.images && input.images.length > 0
+    ? input.images.map((image, i) => buildImage(image, i, input.title))
+    : [generateMockImage(0, input.title)];
+
+  const variantInputs = input.variants && input.variants.length > 0 ? input.variants : [{}];
+  const variants = variantInputs.map((variant, i) => buildVariant(variant, i, { id, handle }, images));
+  const firstAvailable = variants.find(v => v.available) ?? variants[0];
+
+  const prices = variants.map(v => v.price);
+  const compareAtPrices = variants.map(v => v.compare_at_price).filter((p): p is number => p !== null);
+
+  const optionNames = input.options ?? [];
+  const options = optionNames.map((name, i) => {
+    const key = `option${i + 1}` as 'option1' | 'option2' | 'option3';
+    const values = Array.from(new Set(variants.map(v => v[key]).filter((v): v is string => Boolean(v))));
+    return { name, position: i + 1, values };
+  });
+
+  return {
+    id,
+    title: input.title,
+    handle,
+    description: input.description ?? '',
+    price: Math.min(...prices),
+    price_min: Math.min(...prices),
+    price_max: Math.max(...prices),
+    compare_at_price: firstAvailable.compare_at_price,
+    compare_at_price_min: compareAtPrices.length > 0 ? Math.min(...compareAtPrices) : null,
+    compare_at_price_max: compareAtPrices.length > 0 ? Math.max(...compareAtPrices) : null,
+    featured_image: images[0],
+    featured_media: { id: 3000, media_type: 'image', preview_image: images[0], alt: images[0].alt, position: 1 },
+    images,
+    media: images.map((img, i) => ({ id: 3000 + i, media_type: 'image' as const, preview_image: img, alt: img.alt, position: i + 1 })),
+    variants,
+    options,
+    options_with_values: options.map(option => {
+      const key = `option${option.position}` as 'option1' | 'option2' | 'option3';
+      return {
+        name: option.name,
+        position: option.position,
+        values: option.values.map(value => ({
+          value,
+          available: variants.some(v => v[key] === value && v.available),
+        })),
+        selected_value: firstAvailable[key] ?? option.values[0],
+      };
+    }),
+    vendor: input.vendor ?? '',
+    type: input.type ?? '',
+    tags: input.tags ?? [],
+    available: variants.some(v => v.available),
+    selected_variant: null,
+    selected_or_first_available_variant: firstAvailable,
+    first_available_variant: firstAvailable,
+    has_only_default_variant: variants.length === 1 && optionNames.length === 0,
+    requires_selling_plan: false,
+    selling_plan_groups: [],
+    url: `/products/${handle}`,
+    collections: [],
+  };
+}
+
+function buildFixtureCollection(
+  input: FixtureCollection,
+  index: number,
+  products: MockProductData[]
+): MockCollectionData {
+  const members = input.products
+    ? input.products.map(handle => products.find(p => p.handle === handle)).filter((p): p is MockProductData => Boolean(p))
+    : products;
+
+  // Sorting and filter options stay as the default collection has them
+  const defaults = generateMockCollection(index);
+
+  return {
+    ...defaults,
+    title: input.title,
+    handle: input.handle,
+    description: input.description ?? '',
+    image: input.image ? buildImage(input.image, 0, input.title) : members[0]?.featured_image ?? null,
+    products: members,
+    products_count: members.length,
+    all_products_count: members.length,
+    all_tags: Array.from(new Set(members.flatMap(p => p.tags))).sort(),
+    all_types: Array.from(new Set(members.map(p => p.type).filter(Boolean))).sort(),
+    all_vendors: Array.from(new Set(members.map(p => p.vendor).filter(Boolean))).sort(),
+    url: `/collections/${input.handle}`,
+  };
+}
+
+function buildLink(input: FixtureLink): MockLinkData {
+  const links = (input.links ?? []).map(buildLink);
+  return {
+    active: false,
+    child_active: false,
+    current: false,
+    child_current: false,
+    handle: handleize(input.title),
+    levels: links.length > 0 ? 1 + Math.max(...links.map(l => l.levels)) : 0,
+    links,
+    object: null,
+    title: input.title,
+    type: input.url.startsWith('/collections') ? 'collection' : input.url.startsWith('/pages') ? 'page' : 'http',
+    url: input.url,
+  };
+}
+
+function buildCustomer(input: FixtureCustomer): MockCustomer {
+  return {
+    id: 7000,
+    email: input.email,
+    first_name: input.first_name ?? '',
+    last_name: input.last_name ?? '',
+    name: [input.first_name, input.last_name].filter(Boolean).join(' '),
+    orders_count: input.orders_count ?? 0,
+    total_spent: input.total_spent ?? 0,
+    tags: input.tags ?? [],
+    addresses: [],
+    default_address: null,
+  };
+}
+
+function buildCartItem(input: FixtureCartItem, products: MockProductData[]): MockCartItem | null {
+  const product = products.find(p => p.handle === input.product);
+  if (!product) return null;
+
+  const variant = typeof input.variant === 'string'
+    ? product.variants.find(v => v.sku === input.variant)
+    : product.variants[input.variant ?? 0];
+  if (!variant) return null;
+
+  return generateMockCartItem(product, variant, input.quantity ?? 1);
+}
+
+// Replace generated mock data with the project's fixtures. Only the entities a
+// fixture defines are replaced; the rest keeps the generated defaults.
+export function applyMockFixtures(context: RenderContext, fixtures: MockFixtures): void {
+  // Fixtures saved before nested entries were validated preview with the defaults instead
+  if (validateFixtures(fixtures).length > 0) return;
+
+  if (fixtures.shop) {
+    const { currency, ...shop } = fixtures.shop;
+    if (currency) {
+      // Known currencies bring their money formats; formats in the fixture still win
+      setPreviewCurrency(context, currency);
+      context.shop = { ...context.shop, currency: { iso_code: currency } };
+      context.cart = { ...context.cart, currency: { iso_code: currency } };
+    }
+    context.shop = { ...context.shop, ...shop };
+  }
+
+  const products = (fixtures.products ?? []).map((product, i) => buildFixtureProduct(product, i));
+
+  if (products.length > 0) {
+    context.all_products = products;
+    if (context.product) {
+      context.product = products[0];
+    }
+  }
+
+  const collections = fixtures.collections
+    ? fixtures.collections.map((collection, i) => buildFixtureCollection(collection, i, products))
+    : products.length > 0 && context.collection
+      ? [buildFixtureCollection({ handle: 'all', title: 'All products' }, 0, products)]
+      : [];
+
+  if (collections.length > 0) {
+    for (const product of products) {
+      product.collections = collections.filter(c => c.products.includes(product));
+    }
+    if (context.collection) {
+      context.collection = collections[0];
+    }
+    if (context.collections) {
+      context.collections = collections;
+    }
+  }
+
+  if (fixtures.menus) {
+    const menus: Record<string, MockMenuData> = {};
+    for (const [handle, menu] of Object.entries(fixtures.menus)) {
+      const links = menu.links.map(buildLink);
+      menus[handle] = {
+        handle,
+        title: menu.title ?? handle,
+        levels: links.length > 0 ? 1 + Math.max(...links.map(l => l.levels)) : 0,
+        links,
+      };
+    }
+    context.linklists = { ...context.linklists, ...menus };
+  }
+
+  if (fixtures.customer !== undefined) {
+    context.customer = fixtures.customer ? buildCustomer(fixtures.customer) : null;
+  }
+
+  if (fixtures.cart) {
+    const items = fixtures.cart.items
+      .map(item => buildCartItem(item, products))
+      .filter((item): item is MockCartItem => item !== null);
+
+    context.cart = generateMockCart(items, context.cart.currency.iso_code);
+  }
+}
@@ -0,0 +1,224 @@
+// Fonts from Shopify's font library, as font_picker settings and the font filters see them
+
+export type FontStyle = 'normal' | 'italic';
+
+export interface FontFamilyDefinition {
+  family: string;
+  fallback_families: 'sans-serif' | 'serif' | 'monospace';
+  // Variant codes as used in handles: n4 = normal 400, i7 = italic 700
+  variants: string[];
+  // Web-safe fonts the browser already has; Shopify serves no files for them
+  system?: boolean;
+}
+
+// The font object a font_picker setting holds
+export interface MockFontData {
+  handle: string;
+  family: string;
+  fallback_families: string;
+  style: FontStyle;
+  weight: number;
+  'system?': boolean;
+  variants: MockFontData[];
+  toString(): string;
+}
+
+const weights = (from: number, to: number, italics: boolean): string[] => {
+  const variants: string[] = [];
+  for (let weight = from; weight <= to; weight++) {
+    variants.push(`n${weight}`);
+    if (italics) variants.push(`i${weight}`);
+  }
+  return variants;
+};
+
+// Keyed by the family part of the handle (assistant_n4 -> assistant)
+export const FONT_CATALOG: Record<string, FontFamilyDefinition> = {
+  // Sans serif
+  archivo: { family: 'Archivo', fallback_families: 'sans-serif', variants: weights(1, 9, true) },
+  assistant: { family: 'Assistant', fallback_families: 'sans-serif', variants: weights(2, 8, false) },
+  barlow: { family: 'Barlow', fallback_families: 'sans-serif', variants: weights(1, 9, true) },
+  dm_sans: { family: 'DM Sans', fallback_families: 'sans-serif', variants: ['n4', 'i4', 'n5', 'i5', 'n7', 'i7'] },
+  inter: { family: 'Inter', fallback_families: 'sans-serif', variants: weights(1, 9, false) },
+  karla: { family: 'Karla', fallback_families: 'sans-serif', variants: weights(2, 8, true) },
+  lato: { family: 'Lato', fallback_families: 'sans-serif', variants: ['n1', 'i1', 'n3', 'i3', 'n4', 'i4', 'n7', 'i7', 'n9', 'i9'] },
+  montserrat: { family: 'Montserrat', fallback_families: 'sans-serif', variants: weights(1, 9, true) },
+  nunito_sans: { family: 'Nunito Sans', fallback_families: 'sans-serif', variants: weights(2, 9, true).filter(v => !v.endsWith('5')) },
+  open_sans: { family: 'Open Sans', fallback_families: 'sans-serif', variants: weights(3, 8, true) },
+  oswald: { family: 'Oswald', fallback_families: 'sans-serif', variants: weights(2, 7, false) },
+  poppins: { family: 'Poppins', fallback_families: 'sans-serif', variants: weights(1, 9, true) },
+  roboto: { family: 'Roboto', fallback_families: 'sans-serif', variants: ['n1', 'i1', 'n3', 'i3', 'n4', 'i4', 'n5', 'i5', 'n7', 'i7', 'n9', 'i9'] },
+  rubik: { family: 'Rubik', fallback_families: 'sans-serif', variants: weights(3, 9, true) },
+  source_sans_pro: { family: 'Source Sans Pro', fallback_families: 'sans-serif', variants: ['n2', 'i2', 'n3', 'i3', 'n4', 'i4', 'n6', 'i6', 'n7', 'i7', 'n9', 'i9'] },
+  space_grotesk: { family: 'Space Grotesk', fallback_families: 'sans-serif', variants: weights(3, 7, false) },
+  work_sans: { family: 'Work Sans', fallback_families: 'sans-serif', variants: weights(1, 9, true) },
+
+  // Serif
+  cormorant: { family: 'Cormorant', fallback_families: 'serif', variants: weights(3, 7, true) },
+  crimson_text: { family: 'Crimson Text', fallback_families: 'serif', variants: ['n4', 'i4', 'n6', 'i6', 'n7', 'i7'] },
+  libre_baskerville: { family: 'Libre Baskerville', fallback_families: 'serif', variants: ['n4', 'i4', 'n7'] },
+  lora: { family: 'Lora', fallback_families: 'serif', variants: weights(4, 7, true) },
+  merriweather: { family: 'Merriweather', fallback_families: 'serif', variants: ['n3', 'i3', 'n4', 'i4', 'n7', 'i7', 'n9', 'i9'] },
+  playfair_display: { family: 'Playfair Display', fallback_families: 'serif', variants: weights(4, 9, true) },
+  pt_serif: { family: 'PT Serif', fallback_families: 'serif', variants: ['n4', 'i4', 'n7', 'i7'] },
+  roboto_slab: { family: 'Roboto Slab', fallback_families: 'serif', variants: weights(1, 9, false) },
+
+  // Monospace
+  ibm_plex_mono: { family: 'IBM Plex Mono', fallback_families: 'monospace', variants: weights(1, 7, true) },
+  space_mono: { family: 'Space Mono', fallback_families: 'monospace', variants: ['n4', 'i4', 'n7', 'i7'] },
+
+  // System
+  helvetica: { family: 'Helvetica', fallback_families: 'sans-serif', variants: ['n3', 'i3', 'n4', 'i4', 'n7', 'i7'], system: true },
+  'sans-serif': { family: 'sans-serif', fallback_families: 'sans-serif', variants: ['n4', 'i4', 'n7', 'i7'], system: true },
+  serif: { family: 'serif', fallback_families: 'serif', variants: ['n4', 'i4', 'n7', 'i7'], system: true },
+  monospace: { family: 'monospace', fallback_families: 'monospace', variants: ['n4', 'i4', 'n7', 'i7'], system: true },
+};
+
+const HANDLE_PATTERN = /^([a-z0-9_-]+)_([ni])([1-9])$/;
+
+// "playfair_display_i7" -> { key: 'playfair_display', style: 'italic', weight: 700 }
+export function parseFontHandle(handle: string): { key: string; style: FontStyle; weight: number } | null {
+  const match = handle.match(HANDLE_PATTERN);
+  if (!match) return null;
+  return { key: match[1], style: match[2] === 'i' ? 'italic' : 'normal', weight: parseInt(match[3], 10) * 100 };
+}
+
+function getFontHandle(key: string, style: FontStyle, weight: number): string {
+  return `${key}_${style === 'italic' ? 'i' : 'n'}${weight / 100}`;
+}
+
+// Handles of fonts in the catalog, including the variant ("inter_n4" but not "inter_n2")
+export function isFontHandle(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const parsed = parseFontHandle(value);
+  if (!parsed) return false;
+  return FONT_CATALOG[parsed.key]?.variants.includes(value.slice(parsed.key.length + 1)) ?? false;
+}
+
+export function getFont(handle: string): MockFontData | null {
+  if (!isFontHandle(handle)) return null;
+
+  const { key, style, weight } = parseFontHandle(handle)!;
+  const definition = FONT_CATALOG[key];
+
+  const font = {
+    handle,
+    family: definition.family,
+    fallback_families: definition.fallback_families,
+    style,
+    weight,
+    'system?': Boolean(definition.system),
+    toString: () => definition.family,
+  } as MockFontData;
+
+  // Built on access, since every variant has variants of its own
+  Object.defineProperty(font, 'variants', {
+    enumerable: false,
+    get: () => definition.variants.map(variant => getFont(`${key}_${variant}`)!),
+  });
+
+  return font;
+}
+
+// font_picker values arrive as handles; anything outside the catalog stays as it is
+export function toMockFont(value: unknown): unknown {
+  return isFontHandle(value) ? getFont(value) : value;
+}
+
+// Turn font handles in settings into font objects, in place
+export function resolveFontSettings<T extends Record<string, unknown>>(settings: T): T {
+  for (const [id, value] of Object.entries(settings)) {
+    if (isFontHandle(value)) {
+      (settings as Record<string, unknown>)[id] = getFont(value);
+    }
+  }
+  return settings;
+}
+
+function isMockFont(value: unknown): value is MockFontData {
+  return typeof value === 'object' && value !== null && typeof (value as MockFontData).handle === 'string';
+}
+
+// Accept font objects or bare handles, so filters work on both
+export function asMockFont(value: unknown): MockFontData | null {
+  if (isMockFont(value)) return value;
+  return typeof value === 'string' ? getFont(value) : null;
+}
+
+// The variant of a font with the given style and weight, or null when the family doesn't have it
+function getFontVariant(font: MockFontData, style: FontStyle, weight: number): MockFontData | null {
+  const parsed = parseFontHandle(font.handle);
+  if (!parsed || weight < 100 || weight > 900 || weight % 100 !== 0) return null;
+  return getFont(getFontHandle(parsed.key, style, weight));
+}
+
+// Next lighter (-1) or heavier (+1) weight the family has in the font's style
+function getAdjacentWeight(font: MockFontData, direction: 1 | -1): number | null {
+  const available = font.variants
+    .filter(variant => variant.style === font.style)
+    .map(variant => variant.weight)
+    .filter(weight => (weight - font.weight) * direction > 0)
+    .sort((a, b) => (a - b) * direction);
+  return available[0] ?? null;
+}
+
+// font_modify: 'weight' takes 100-900, normal, bold, lighter, bolder or a +/- offset;
+// 'style' takes normal, italic or oblique. Null when the family has no such variant, as in Shopify.
+export function modifyFont(font: MockFontData, property: string, value: unknown): MockFontData | null {
+  const setting = String(value).trim().toLowerCase();
+
+  if (property === 'style') {
+    if (setting === 'normal') return getFontVariant(font, 'normal', font.weight);
+    if (setting === 'italic' || setting === 'oblique') return getFontVariant(font, 'italic', font.weight);
+    return null;
+  }
+
+  if (property === 'weight') {
+    let weight: number | null;
+    if (setting === 'normal') {
+      weight = 400;
+    } else if (setting === 'bold') {
+      weight = 700;
+    } else if (setting === 'lighter') {
+      weight = getAdjacentWeight(font, -1);
+    } else if (setting === 'bolder') {
+      weight = getAdjacentWeight(font, 1);
+    } else if (/^[+-]\d+$/.test(setting)) {
+      weight = font.weight + parseInt(setting, 10);
+    } else {
+      weight = /^\d+$/.test(setting) ? parseInt(setting, 10) : null;
+    }
+    return weight === null ? null : getFontVariant(font, font.style, weight);
+  }
+
+  return null;
+}
+
+// The Shopify font CDN isn't reachable from previews, so font_url points at the same
+// variant on Google Fonts. System fonts have no file to load.
+export function getFontUrl(font: MockFontData): string {
+  if (font['system?']) return '';
+  const family = font.family.replace(/ /g, '+');
+  const italic = font.style === 'italic' ? 1 : 0;
+  return `https://fonts.googleapis.com/css2?family=${family}:ital,wght@${italic},${font.weight}&display=swap`;
+}
+
+// {{ font | font_face: font_display: 'swap' }}. Previews load the face from a locally installed copy.
+export function generateFontFace(font: MockFontData, options: { fontDisplay?: string } = {}): string {
+  if (font['system?']) return '';
+
+  const declarations = [
+    `font-family: "${font.family}";`,
+    `font-weight: ${font.weight};`,
+    `font-style: ${font.style};`,
+    options.fontDisplay ? `font-display: ${options.fontDisplay};` : '',
+    `src: local("${font.family}");`,
+  ].filter(Boolean);
+
+  return `@font-face {\n  ${declarations.join('\n  ')}\n}`;
+}
+
+// Catalog families for font pickers, grouped by their fallback
+export function listFontFamilies(): (FontFamilyDefinition & { key: string })[] {
+  return Object.entries(FONT_CATALOG).map(([key, definition]) => ({ key, ...definition }));
+}
@@ -0,0 +1,14 @@
+// Escape text for HTML content and quoted attribute values
+export function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+// JSON for an inline <script>; escaping < keeps a "</script>" inside a string from ending the script
+export function toScriptJSON(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
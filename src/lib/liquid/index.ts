@@ -1,9 +1,37 @@
 // Liquid rendering module exports
 
 export { getLiquidEngine, createLiquidEngine } from './engine';
+export type { LiquidEngineOptions } from './engine';
+export { getLibrarySnippets, loadProjectSnippets } from './snippets';
+export { getLibraryLocales, loadProjectLocales, translate, getProjectMissingTranslations, isLocaleCode } from './locales';
+export type { ThemeLocales, ThemeLocale, MissingTranslationsReport } from './locales';
 export { generateMockDataFromSchema, generateMockProduct, generateMockCollection } from './mock-generator';
+export type { MockDataOptions } from './mock-generator';
+export { createMockRandom } from './random';
+export type { MockSeed, MockRandom } from './random';
+export { applyMockFixtures, buildFixtureProduct, validateFixtures } from './fixtures';
+export type { MockFixtures, FixtureProduct, FixtureCollection } from './fixtures';
+export { applyMockMetaobjects, generateMockMetaobjects, generateMockMetaobject } from './metaobjects';
+export type { MetaobjectDefinition, MetaobjectFieldDefinition } from './metaobjects';
+export { paginateItems, generateDefaultPagination, setPreviewPage } from './pagination';
+export type { PaginateData, PaginatePart } from './pagination';
+export {
+  PREVIEW_SCENARIOS,
+  DEFAULT_SCENARIO_MATRIX,
+  parseScenarioNames,
+  resolveScenarios,
+  applyPreviewScenarios,
+} from './scenarios';
+export type { PreviewScenario, ScenarioGroup } from './scenarios';
 export { renderSection, renderSectionsBatch } from './renderer';
 export type { RenderOptions, RenderResult } from './renderer';
+export { renderPage, parseTemplateJSON, normalizeTemplatePath } from './page-renderer';
+export { escapeHtml, toScriptJSON } from './html';
+export type { PageRenderOptions, PageRenderResult, ThemeTemplateData, TemplateSectionData } from './page-renderer';
+export { renderProjectSection } from './project-renderer';
+export type { ProjectSectionRenderOptions } from './project-renderer';
+export { renderScenarioMatrix, MAX_MATRIX_CELLS } from './matrix';
+export type { ScenarioMatrixOptions, ScenarioMatrixCell } from './matrix';
 export {
   getCachedPreview,
   setCachedPreview,
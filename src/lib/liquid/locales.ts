@@ -0,0 +1,280 @@
+import { getDB } from '../db';
+import { getProjectFilesByPrefix } from '../project/files';
+import { ProjectRequestError } from '../project/errors';
+import type { RenderContext } from './mock-data';
+
+export interface LocaleMessages {
+  [key: string]: string | LocaleMessages;
+}
+
+export interface ThemeLocale {
+  code: string;
+  isDefault: boolean;
+  // locales/{code}.json, used by the t filter
+  storefront: LocaleMessages;
+  // locales/{code}.schema.json, used for "t:" labels in schemas
+  schema: LocaleMessages;
+}
+
+export interface ThemeLocales {
+  defaultLocale: string;
+  locales: Record<string, ThemeLocale>;
+}
+
+export interface LocaleMissingKeys {
+  code: string;
+  isDefault: boolean;
+  missing: string[];
+}
+
+export interface MissingTranslationsReport {
+  defaultLocale: string;
+  keyCount: number;
+  locales: LocaleMissingKeys[];
+}
+
+// Base theme locales bundled at build time, used when a project has none of its own
+const libraryLocaleModules = import.meta.glob<string>('/library/base-theme/locales/*.json', {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+// Keys used as {{ 'general.page' | t }} in Liquid
+const TRANSLATION_KEY_PATTERN = /['"]([\w.-]+)['"]\s*\|\s*t\b/g;
+
+// Plural forms Shopify recognizes in locale files
+const PLURAL_KEYS = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// "locales/pt-BR.default.schema.json" -> { code: 'pt-BR', isDefault: true, isSchema: true }
+export function parseLocalePath(path: string): { code: string; isDefault: boolean; isSchema: boolean } | null {
+  const match = path.match(/(?:^|\/)locales\/([\w-]+?)(\.default)?(\.schema)?\.json$/);
+  if (!match) return null;
+  return { code: match[1], isDefault: Boolean(match[2]), isSchema: Boolean(match[3]) };
+}
+
+function isPluralEntry(value: LocaleMessages): boolean {
+  return Object.keys(value).some(key => PLURAL_KEYS.includes(key));
+}
+
+// Flatten nested locale JSON into dot-separated keys
+export function flattenLocale(data: Record<string, unknown>, prefix = ''): Set<string> {
+  const keys = new Set<string>();
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = value as Record<string, unknown>;
+      // Pluralized entries ({ one, other }) count as the parent key
+      if ('one' in nested || 'other' in nested) keys.add(path);
+      flattenLocale(nested, path).forEach(k => keys.add(k));
+    } else {
+      keys.add(path);
+    }
+  }
+  return keys;
+}
+
+// Translation keys referenced through the t filter in a Liquid file
+export function findTranslationKeys(content: string): { key: string; index: number }[] {
+  return Array.from(content.matchAll(TRANSLATION_KEY_PATTERN), match => ({
+    key: match[1],
+    index: match.index ?? 0,
+  }));
+}
+
+// Build the locale set from locales/*.json files; unreadable files are skipped
+export function buildThemeLocales(files: { path: string; content: string }[]): ThemeLocales {
+  const locales: Record<string, ThemeLocale> = {};
+  let defaultLocale: string | null = null;
+
+  for (const file of files) {
+    const parsed = parseLocalePath(file.path);
+    if (!parsed) continue;
+
+    let messages: LocaleMessages;
+    try {
+      messages = JSON.parse(file.content.replace(/^\s*\/\*[\s\S]*?\*\//, ''));
+    } catch {
+      continue;
+    }
+
+    const locale = locales[parsed.code] ?? { code: parsed.code, isDefault: false, storefront: {}, schema: {} };
+    locale.isDefault = locale.isDefault || parsed.isDefault;
+    if (parsed.isSchema) {
+      locale.schema = messages;
+    } else {
+      locale.storefront = messages;
+    }
+    locales[parsed.code] = locale;
+
+    if (parsed.isDefault) defaultLocale = parsed.code;
+  }
+
+  return { defaultLocale: defaultLocale ?? Object.keys(locales)[0] ?? 'en', locales };
+}
+
+export function getLibraryLocales(): ThemeLocales {
+  return buildThemeLocales(
+    Object.entries(libraryLocaleModules).map(([path, content]) => ({ path, content }))
+  );
+}
+
+// Get the locales a project renders with, falling back to the base theme
+// when the project has no locale files
+export async function loadProjectLocales(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<ThemeLocales> {
+  const files = await getProjectFilesByPrefix(projectSlug, 'locales/', locals);
+  const locales = buildThemeLocales(files);
+  return Object.keys(locales.locales).length > 0 ? locales : getLibraryLocales();
+}
+
+// "pt-BR" falls back to "pt", then to the default locale
+export function resolveLocale(locales: ThemeLocales, code: string | undefined): ThemeLocale | null {
+  if (code) {
+    const exact = locales.locales[code] ?? locales.locales[code.split('-')[0]];
+    if (exact) return exact;
+  }
+  return locales.locales[locales.defaultLocale] ?? null;
+}
+
+// "fr" -> "French", "pt-BR" -> "Brazilian Portuguese"
+export function getLocaleName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// "fr", "pt-BR", and the "en_US" style some locale file names use
+const LOCALE_CODE_PATTERN = /^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/;
+
+export function isLocaleCode(value: string): boolean {
+  return LOCALE_CODE_PATTERN.test(value);
+}
+
+// Preview in another locale: the t filter and templates read request.locale
+export function setRequestLocale(context: RenderContext, code: string): void {
+  context.request = { ...context.request, locale: { iso_code: code, name: getLocaleName(code) } };
+}
+
+function lookup(messages: LocaleMessages, key: string): string | LocaleMessages | undefined {
+  let value: string | LocaleMessages | undefined = messages;
+  for (const part of key.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+// Plural category for a count; locale file names may use en_US, and unknown codes fall back to English
+function selectPluralCategory(code: string, count: number): Intl.LDMLPluralRule {
+  try {
+    return new Intl.PluralRules(code.replace(/_/g, '-')).select(count);
+  } catch {
+    return new Intl.PluralRules('en').select(count);
+  }
+}
+
+function pluralize(entry: LocaleMessages, code: string, count: number): string | undefined {
+  if (count === 0 && typeof entry.zero === 'string') return entry.zero;
+  const category = selectPluralCategory(code, count);
+  const value = entry[category] ?? entry.other;
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Replace {{ name }} placeholders; unknown ones are left as written
+function interpolate(message: string, vars: Record<string, unknown>): string {
+  return message.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name] ?? '') : placeholder
+  );
+}
+
+// Translate a key the way Shopify's t filter does: the requested locale, then
+// the default locale, then a "translation missing" message
+export function translate(
+  locales: ThemeLocales,
+  code: string | undefined,
+  key: string,
+  vars: Record<string, unknown> = {}
+): string {
+  const locale = resolveLocale(locales, code);
+  const fallback = locales.locales[locales.defaultLocale];
+  const candidates = [locale, fallback].filter((l): l is ThemeLocale => Boolean(l));
+
+  for (const candidate of candidates) {
+    let value = lookup(candidate.storefront, key) ?? lookup(candidate.schema, key);
+
+    if (value && typeof value === 'object' && isPluralEntry(value) && vars.count !== undefined) {
+      value = pluralize(value, candidate.code, Number(vars.count));
+    }
+
+    if (typeof value === 'string') {
+      return interpolate(value, vars);
+    }
+  }
+
+  return `translation missing: ${locale?.code ?? code ?? locales.defaultLocale}.${key}`;
+}
+
+// Keys each storefront locale lacks: everything in the default locale plus
+// every key the theme's Liquid files pass to the t filter
+export function findMissingTranslations(
+  locales: ThemeLocales,
+  liquidFiles: { path: string; content: string }[]
+): MissingTranslationsReport {
+  const defaultMessages = locales.locales[locales.defaultLocale]?.storefront ?? {};
+  const keys = flattenLocale(defaultMessages);
+  for (const file of liquidFiles) {
+    findTranslationKeys(file.content).forEach(({ key }) => keys.add(key));
+  }
+
+  // Only leaf and plural keys need a translation; parent objects and plural forms don't
+  const required = Array.from(keys)
+    .filter(key => {
+      const parent = key.includes('.') ? lookup(defaultMessages, key.replace(/\.[^.]+$/, '')) : undefined;
+      if (parent && typeof parent === 'object' && isPluralEntry(parent)) return false;
+      const value = lookup(defaultMessages, key);
+      return value === undefined || typeof value === 'string' || isPluralEntry(value);
+    })
+    .sort();
+
+  const report: LocaleMissingKeys[] = Object.values(locales.locales)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.code.localeCompare(b.code))
+    .map(locale => ({
+      code: locale.code,
+      isDefault: locale.isDefault,
+      missing: required.filter(key => lookup(locale.storefront, key) === undefined),
+    }));
+
+  return { defaultLocale: locales.defaultLocale, keyCount: required.length, locales: report };
+}
+
+export async function getProjectMissingTranslations(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<MissingTranslationsReport> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new ProjectRequestError(`Project "${projectSlug}" not found`, 404);
+  }
+
+  const files = await db
+    .prepare('SELECT file_path, content FROM project_files WHERE project_id = ? ORDER BY file_path')
+    .bind(project.id)
+    .all<{ file_path: string; content: string }>();
+
+  const themeFiles = files.results.map(f => ({ path: f.file_path, content: f.content }));
+  return findMissingTranslations(
+    buildThemeLocales(themeFiles),
+    themeFiles.filter(f => f.path.endsWith('.liquid'))
+  );
+}
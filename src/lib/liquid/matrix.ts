@@ -0,0 +1,62 @@
+import { renderSection } from './renderer';
+import type { RenderOptions, RenderResult } from './renderer';
+import { renderProjectSection } from './project-renderer';
+import {
+  DEFAULT_SCENARIO_MATRIX,
+  getScenarioLabel,
+  getScenarioViewport,
+  resolveScenarios,
+} from './scenarios';
+
+export interface ScenarioMatrixOptions extends Omit<RenderOptions, 'scenarios' | 'sectionSlug'> {
+  sectionSlug?: string;
+  // Render the project's saved section instead of the library one (needs projectSlug)
+  projectSectionId?: number;
+  // One entry per cell, each a list of scenario names to combine; every scenario alone by default
+  matrix?: string[][];
+}
+
+export interface ScenarioMatrixCell {
+  scenarios: string[];
+  label: string;
+  viewport: 'mobile' | 'desktop';
+  result: RenderResult;
+}
+
+export const MAX_MATRIX_CELLS = 20;
+
+// Render one section once per scenario combination
+export async function renderScenarioMatrix(options: ScenarioMatrixOptions): Promise<ScenarioMatrixCell[]> {
+  const { sectionSlug, projectSectionId, matrix = DEFAULT_SCENARIO_MATRIX, ...renderOptions } = options;
+
+  if (!sectionSlug && !(projectSectionId && renderOptions.projectSlug)) {
+    throw new Error('sectionSlug or projectSlug with projectSectionId is required');
+  }
+
+  if (matrix.length > MAX_MATRIX_CELLS) {
+    throw new Error(`Scenario matrix exceeds maximum of ${MAX_MATRIX_CELLS} cells`);
+  }
+
+  // Fail before rendering anything if a cell names an unknown or conflicting scenario
+  matrix.forEach(resolveScenarios);
+
+  return Promise.all(
+    matrix.map(async (scenarios) => {
+      const result = projectSectionId && renderOptions.projectSlug
+        ? await renderProjectSection({
+            ...renderOptions,
+            projectSlug: renderOptions.projectSlug,
+            projectSectionId,
+            scenarios,
+          })
+        : await renderSection({ ...renderOptions, sectionSlug: sectionSlug!, scenarios });
+
+      return {
+        scenarios,
+        label: getScenarioLabel(scenarios),
+        viewport: getScenarioViewport(scenarios) ?? 'desktop',
+        result,
+      };
+    })
+  );
+}
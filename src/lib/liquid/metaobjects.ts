@@ -0,0 +1,178 @@
+import type {
+  MockMetaobjectData,
+  MockMetaobjectField,
+  MockMetaobjectTypeData,
+  RenderContext,
+} from './mock-data';
+import { generateMockCollection, generateMockImage, generateMockProduct } from './mock-generator';
+import type { MockDataOptions } from './mock-generator';
+import { createMockRandom } from './random';
+import type { MockRandom } from './random';
+
+// Library metaobject definition (library/metaobjects/*.json)
+export interface MetaobjectFieldDefinition {
+  key: string;
+  name: string;
+  type: string;
+  description?: string;
+  required?: boolean;
+  validations?: unknown[];
+}
+
+export interface MetaobjectDefinition {
+  name: string;
+  slug: string;
+  description?: string;
+  type: string;
+  fields: MetaobjectFieldDefinition[];
+  capabilities?: {
+    publishable?: boolean;
+    translatable?: boolean;
+    onlineStore?: boolean;
+  };
+}
+
+const DEFAULT_ENTRY_COUNT = 4;
+const LIST_LENGTH = 3;
+
+const SAMPLE_SENTENCES = [
+  'Orders ship within two business days from our studio.',
+  'Every piece is checked by hand before it leaves us.',
+  'Returns are free within 30 days of delivery.',
+  'Reach our team by email and we reply within a day.',
+  'Care instructions are printed on the inside label.',
+  'Gift wrapping can be added at checkout.',
+];
+
+const SAMPLE_COLORS = ['#1f2937', '#4f46e5', '#059669', '#dc2626', '#d97706'];
+
+// {{ entry.question }} prints the value the way Shopify does; {{ entry.question.value }} works too
+function createField(type: string, value: unknown): MockMetaobjectField {
+  return {
+    type,
+    value,
+    toString() {
+      return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+    },
+  } as MockMetaobjectField;
+}
+
+function sampleSentences(index: number, count: number, random?: MockRandom): string {
+  return Array.from({ length: count }, (_, i) =>
+    random ? random.pick(SAMPLE_SENTENCES) : SAMPLE_SENTENCES[(index + i) % SAMPLE_SENTENCES.length]
+  ).join(' ');
+}
+
+// Mock value for one Shopify metafield type ('list.' types handled by the caller)
+function generateFieldValue(
+  type: string,
+  field: MetaobjectFieldDefinition,
+  index: number,
+  random?: MockRandom
+): unknown {
+  switch (type) {
+    case 'single_line_text_field':
+      return `${field.name} ${index + 1}`;
+    case 'multi_line_text_field':
+      return sampleSentences(index, random ? random.int(1, 3) : 2, random);
+    case 'rich_text_field':
+      return `<p>${sampleSentences(index, 2, random)}</p>`;
+    case 'number_integer':
+      return index + 1;
+    case 'number_decimal':
+      return random ? Math.round(random.next() * 1000) / 10 : 4.5 + index;
+    case 'boolean':
+      return random ? random.chance(0.5) : index % 2 === 0;
+    case 'date':
+      return `2024-0${(index % 9) + 1}-15`;
+    case 'date_time':
+      return `2024-0${(index % 9) + 1}-15T10:00:00Z`;
+    case 'url':
+      return `https://example.com/${field.key}-${index + 1}`;
+    case 'link':
+      return { text: `${field.name} ${index + 1}`, url: `/pages/${field.key}-${index + 1}` };
+    case 'color':
+      return random ? random.pick(SAMPLE_COLORS) : SAMPLE_COLORS[index % SAMPLE_COLORS.length];
+    case 'rating':
+      return { value: random ? random.int(3, 5) : 5 - (index % 3), scale_min: 1, scale_max: 5 };
+    case 'dimension':
+    case 'volume':
+    case 'weight':
+      return { value: 10 + index, unit: type === 'weight' ? 'kg' : type === 'volume' ? 'ml' : 'cm' };
+    case 'file_reference':
+      return generateMockImage(index, field.name, random);
+    case 'product_reference':
+      return generateMockProduct(index, random);
+    case 'collection_reference':
+      return generateMockCollection(index, random);
+    case 'page_reference':
+      return { title: `${field.name} ${index + 1}`, handle: `${field.key}-${index + 1}`, url: `/pages/${field.key}-${index + 1}` };
+    case 'json':
+      return {};
+    default:
+      return `${field.name} ${index + 1}`;
+  }
+}
+
+export function generateMockMetaobject(
+  definition: MetaobjectDefinition,
+  index: number = 0,
+  random?: MockRandom
+): MockMetaobjectData {
+  const handle = `${definition.type}-${index + 1}`;
+  const entry: MockMetaobjectData = {
+    system: {
+      id: 7000 + index,
+      handle,
+      type: definition.type,
+      url: definition.capabilities?.onlineStore ? `/pages/${definition.type}/${handle}` : null,
+    },
+  };
+
+  for (const field of definition.fields) {
+    // Optional fields are sometimes left empty, as they are in real stores; Shopify returns
+    // nil for those, so {% if entry.answer != blank %} skips them
+    if (!field.required && random?.chance(0.2)) {
+      entry[field.key] = null;
+      continue;
+    }
+
+    const value = field.type.startsWith('list.')
+      ? Array.from({ length: LIST_LENGTH }, (_, i) =>
+          generateFieldValue(field.type.slice('list.'.length), field, index * LIST_LENGTH + i, random)
+        )
+      : generateFieldValue(field.type, field, index, random);
+
+    entry[field.key] = createField(field.type, value);
+  }
+
+  return entry;
+}
+
+// Mock entries for every definition, keyed by metaobject type as Liquid's metaobjects object is
+export function generateMockMetaobjects(
+  definitions: MetaobjectDefinition[],
+  options: MockDataOptions = {}
+): Record<string, MockMetaobjectTypeData> {
+  const random = options.seed !== undefined ? createMockRandom(`${options.seed}:metaobjects`) : undefined;
+  const metaobjects: Record<string, MockMetaobjectTypeData> = {};
+
+  for (const definition of definitions) {
+    const count = random ? random.int(2, 6) : DEFAULT_ENTRY_COUNT;
+    const values = Array.from({ length: count }, (_, i) => generateMockMetaobject(definition, i, random));
+    const byHandle = Object.fromEntries(values.map(entry => [entry.system.handle, entry]));
+
+    metaobjects[definition.type] = { ...byHandle, values };
+  }
+
+  return metaobjects;
+}
+
+export function applyMockMetaobjects(
+  context: RenderContext,
+  definitions: MetaobjectDefinition[],
+  options: MockDataOptions = {}
+): void {
+  if (definitions.length === 0) return;
+  context.metaobjects = { ...context.metaobjects, ...generateMockMetaobjects(definitions, options) };
+}
@@ -1,5 +1,7 @@
 // Mock data types for Liquid rendering
 
+import type { MockFontData } from './fonts';
+
 export interface MockShopData {
   shop: {
     name: string;
@@ -8,12 +10,14 @@ export interface MockShopData {
     url: string;
     currency: { iso_code: string };
     money_format: string;
+    money_with_currency_format: string;
     enabled_payment_types: string[];
   };
   request: {
     locale: { iso_code: string; name: string };
     host: string;
     path: string;
+    page_type?: string;
   };
   template: {
     name: string;
@@ -236,6 +240,15 @@ export interface MockPageData {
   template_suffix: string | null;
 }
 
+export interface MockSearchData {
+  performed: boolean;
+  terms: string;
+  results: MockProductData[];
+  results_count: number;
+  types: string[];
+  url: string;
+}
+
 export interface MockMenuData {
   handle: string;
   title: string;
@@ -259,7 +272,7 @@ export interface MockLinkData {
 
 // Theme settings type
 export interface MockThemeSettings {
-  [key: string]: string | number | boolean | null;
+  [key: string]: string | number | boolean | null | MockFontData;
 }
 
 // Section context type
@@ -274,6 +287,31 @@ export interface MockBlockContext {
   type: string;
   settings: Record<string, unknown>;
   shopify_attributes: string;
+  static?: boolean;
+  blocks?: MockBlockContext[]; // Nested theme blocks
+}
+
+// Metaobject types
+export interface MockMetaobjectField {
+  type: string;
+  value: unknown;
+}
+
+export interface MockMetaobjectData {
+  system: {
+    id: number;
+    handle: string;
+    type: string;
+    url: string | null;
+  };
+  // Fields by key; empty optional fields are null
+  [key: string]: MockMetaobjectField | MockMetaobjectData['system'] | null;
+}
+
+// metaobjects.<type>.values lists entries, metaobjects.<type>.<handle> looks one up
+export interface MockMetaobjectTypeData {
+  values: MockMetaobjectData[];
+  [handle: string]: MockMetaobjectData | MockMetaobjectData[];
 }
 
 // Full render context
@@ -286,6 +324,7 @@ export interface RenderContext {
   canonical_url: string;
   page_title: string;
   page_description: string;
+  current_page: number;
   settings: MockThemeSettings;
   section: MockSectionContext;
   product?: MockProductData;
@@ -295,7 +334,9 @@ export interface RenderContext {
   article?: MockArticleData;
   blog?: MockBlogData;
   page?: MockPageData;
+  search?: MockSearchData;
   linklists?: Record<string, MockMenuData>;
+  metaobjects?: Record<string, MockMetaobjectTypeData>;
   routes: {
     root_url: string;
     account_url: string;
@@ -310,4 +351,5 @@ export interface RenderContext {
   };
   content_for_header: string;
   content_for_layout: string;
+  section_groups?: Record<string, string>; // Rendered {% sections %} groups, keyed by group name
 }
@@ -8,19 +8,55 @@ import type {
   MockBlockContext,
   MockShopData,
   MockThemeSettings,
+  MockLinkData,
+  MockCartItem,
+  MockCustomer,
+  MockAddressData,
 } from './mock-data';
-import type { SectionData, SectionSetting, SectionBlock, PresetColors, PresetTypography } from '../db/schema';
-
-// Generate a placeholder image URL
-function getPlaceholderImage(width: number, height: number, text?: string): string {
-  const label = text ? encodeURIComponent(text) : 'Preview';
-  return `https://placehold.co/${width}x${height}/e2e8f0/64748b?text=${label}`;
+import type { SectionData, SectionSetting, SectionBlock, PresetColors, PresetTypography, PresetButtons } from '../db/schema';
+import { getPlaceholderImage } from './placeholder';
+import { createMockRandom } from './random';
+import { resolveFontSettings, toMockFont } from './fonts';
+import type { MockRandom, MockSeed } from './random';
+
+export interface MockDataOptions {
+  // Varies counts, titles, prices, availability, image shapes and text lengths;
+  // the same seed always produces the same data
+  seed?: MockSeed;
 }
 
+const PRODUCT_TITLES = [
+  'Premium Cotton T-Shirt',
+  'Classic Denim Jacket',
+  'Leather Messenger Bag',
+  'Wireless Headphones',
+  'Organic Face Serum',
+  'Handcrafted Ceramic Mug',
+];
+
+// Appended to titles to check how cards handle wrapping and truncation
+const LONG_TITLE_SUFFIXES = [
+  'with Reinforced Stitching, Recycled Packaging and a Lifetime Repair Guarantee',
+  '- Limited Edition Hand-Finished Collector\'s Version in Midnight Blue',
+  'Bundle: Includes Travel Case, Spare Parts and Extended Two-Year Warranty',
+];
+
+const DESCRIPTION_SENTENCES = [
+  'Made with premium materials for everyday use.',
+  'Designed to last, with exceptional durability and style.',
+  'Every piece is inspected by hand before it leaves our workshop.',
+  'Pairs well with the rest of the collection.',
+  'Sourced responsibly from suppliers we have worked with for years.',
+  'Care is simple: follow the instructions on the label and it will look new for seasons to come.',
+];
+
+// Square, landscape, portrait, wide and tall, like a real catalog
+const IMAGE_ASPECT_RATIOS = [1, 4 / 3, 3 / 4, 16 / 9, 2 / 3];
+
 // Generate mock image data
-function generateMockImage(index: number = 0, category?: string): MockImageData {
+function generateMockImage(index: number = 0, category?: string, random?: MockRandom): MockImageData {
   const width = 800;
-  const height = 800;
+  const height = Math.round(width / (random ? random.pick(IMAGE_ASPECT_RATIOS) : 1));
   return {
     id: 1000 + index,
     src: getPlaceholderImage(width, height, category || 'Product'),
@@ -33,12 +69,17 @@ function generateMockImage(index: number = 0, category?: string): MockImageData
 }
 
 // Generate mock variant
-function generateMockVariant(index: number, productHandle: string): MockVariantData {
+function generateMockVariant(
+  index: number,
+  productHandle: string,
+  random?: MockRandom,
+  basePrice: number = 2999
+): MockVariantData {
   const sizes = ['Small', 'Medium', 'Large', 'X-Large'];
   const colors = ['Black', 'White', 'Navy', 'Gray'];
   const size = sizes[index % sizes.length];
   const color = colors[Math.floor(index / sizes.length) % colors.length];
-  const price = 2999 + (index * 500);
+  const price = basePrice + (index * 500);
 
   return {
     id: 2000 + index,
@@ -46,9 +87,9 @@ function generateMockVariant(index: number, productHandle: string): MockVariantD
     sku: `SKU-${productHandle.toUpperCase()}-${index + 1}`,
     barcode: `123456789${index}`,
     price,
-    compare_at_price: index % 2 === 0 ? price + 1000 : null,
-    available: index % 3 !== 2,
-    inventory_quantity: 10 + index,
+    compare_at_price: (random ? random.chance(0.4) : index % 2 === 0) ? price + 1000 : null,
+    available: random ? random.chance(0.8) : index % 3 !== 2,
+    inventory_quantity: random ? random.int(0, 50) : 10 + index,
     inventory_policy: 'deny',
     option1: size,
     option2: color,
@@ -62,35 +103,47 @@ function generateMockVariant(index: number, productHandle: string): MockVariantD
 }
 
 // Generate mock product
-function generateMockProduct(index: number = 0): MockProductData {
-  const titles = [
-    'Premium Cotton T-Shirt',
-    'Classic Denim Jacket',
-    'Leather Messenger Bag',
-    'Wireless Headphones',
-    'Organic Face Serum',
-    'Handcrafted Ceramic Mug',
-  ];
+function generateMockProduct(index: number = 0, random?: MockRandom): MockProductData {
   const vendors = ['Acme Co', 'StyleBrand', 'TechGear', 'NatureCraft'];
   const types = ['Apparel', 'Accessories', 'Electronics', 'Home & Garden'];
 
-  const title = titles[index % titles.length];
-  const handle = title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-  const price = 2999 + (index * 1000);
-  const variants = Array.from({ length: 4 }, (_, i) => generateMockVariant(i, handle));
-  const images = Array.from({ length: 3 }, (_, i) => generateMockImage(i, 'Product'));
+  let title = random ? random.pick(PRODUCT_TITLES) : PRODUCT_TITLES[index % PRODUCT_TITLES.length];
+  if (random?.chance(0.15)) {
+    title = `${title} ${random.pick(LONG_TITLE_SUFFIXES)}`;
+  }
+  const handle = `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-$/, '')}${random ? `-${index + 1}` : ''}`;
+
+  // Prices end in 99 cents, from $4.99 to $249.99
+  const price = random ? random.int(5, 250) * 100 - 1 : 2999 + (index * 1000);
+  const onSale = random ? random.chance(0.35) : index % 2 === 0;
+  const soldOut = random ? random.chance(0.15) : false;
+
+  const variants = Array.from({ length: 4 }, (_, i) => generateMockVariant(i, handle, random, price));
+  if (soldOut) {
+    for (const variant of variants) {
+      variant.available = false;
+      variant.inventory_quantity = 0;
+    }
+  }
+  const firstAvailable = variants.find(v => v.available) ?? variants[0];
+
+  const images = Array.from({ length: random ? random.int(1, 4) : 3 }, (_, i) => generateMockImage(i, 'Product', random));
+
+  const description = random
+    ? Array.from({ length: random.int(1, 6) }, () => random.pick(DESCRIPTION_SENTENCES)).join(' ')
+    : `High-quality ${title.toLowerCase()} made with premium materials. Perfect for everyday use with exceptional durability and style.`;
 
   return {
     id: 1000 + index,
     title,
     handle,
-    description: `<p>High-quality ${title.toLowerCase()} made with premium materials. Perfect for everyday use with exceptional durability and style.</p>`,
+    description: `<p>${description}</p>`,
     price,
     price_min: price,
     price_max: price + 2000,
-    compare_at_price: index % 2 === 0 ? price + 1500 : null,
-    compare_at_price_min: index % 2 === 0 ? price + 1500 : null,
-    compare_at_price_max: index % 2 === 0 ? price + 3500 : null,
+    compare_at_price: onSale ? price + 1500 : null,
+    compare_at_price_min: onSale ? price + 1500 : null,
+    compare_at_price_max: onSale ? price + 3500 : null,
     featured_image: images[0],
     featured_media: { id: 3000, media_type: 'image', preview_image: images[0], alt: title, position: 1 },
     images,
@@ -104,13 +157,13 @@ function generateMockProduct(index: number = 0): MockProductData {
       { name: 'Size', position: 1, values: [{ value: 'Small', available: true }, { value: 'Medium', available: true }, { value: 'Large', available: true }, { value: 'X-Large', available: false }], selected_value: 'Medium' },
       { name: 'Color', position: 2, values: [{ value: 'Black', available: true }, { value: 'White', available: true }, { value: 'Navy', available: true }, { value: 'Gray', available: true }], selected_value: 'Black' },
     ],
-    vendor: vendors[index % vendors.length],
-    type: types[index % types.length],
-    tags: ['new', 'featured', 'bestseller'].slice(0, (index % 3) + 1),
-    available: true,
+    vendor: random ? random.pick(vendors) : vendors[index % vendors.length],
+    type: random ? random.pick(types) : types[index % types.length],
+    tags: ['new', 'featured', 'bestseller'].slice(0, (random ? random.int(0, 2) : index % 3) + 1),
+    available: !soldOut,
     selected_variant: variants[0],
-    selected_or_first_available_variant: variants[0],
-    first_available_variant: variants[0],
+    selected_or_first_available_variant: firstAvailable,
+    first_available_variant: firstAvailable,
     has_only_default_variant: false,
     requires_selling_plan: false,
     selling_plan_groups: [],
@@ -120,7 +173,7 @@ function generateMockProduct(index: number = 0): MockProductData {
 }
 
 // Generate mock collection
-function generateMockCollection(index: number = 0): MockCollectionData {
+function generateMockCollection(index: number = 0, random?: MockRandom): MockCollectionData {
   const titles = [
     'New Arrivals',
     'Best Sellers',
@@ -131,17 +184,23 @@ function generateMockCollection(index: number = 0): MockCollectionData {
 
   const title = titles[index % titles.length];
   const handle = title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-  const products = Array.from({ length: 8 }, (_, i) => generateMockProduct(i));
+  // Seeded collections are sometimes empty, to check empty states
+  const productCount = random ? (random.chance(0.1) ? 0 : random.int(1, 12)) : 8;
+  const products = Array.from({ length: productCount }, (_, i) => generateMockProduct(i, random));
+
+  const description = random
+    ? Array.from({ length: random.int(1, 3) }, () => random.pick(DESCRIPTION_SENTENCES)).join(' ')
+    : `Explore our ${title.toLowerCase()} featuring the best products curated just for you.`;
 
   return {
     id: 5000 + index,
     title,
     handle,
-    description: `<p>Explore our ${title.toLowerCase()} featuring the best products curated just for you.</p>`,
-    image: generateMockImage(0, 'Collection'),
+    description: `<p>${description}</p>`,
+    image: generateMockImage(0, 'Collection', random),
     products,
     products_count: products.length,
-    all_products_count: 24,
+    all_products_count: random ? products.length + random.int(0, 40) : 24,
     all_tags: ['new', 'featured', 'sale', 'bestseller'],
     all_types: ['Apparel', 'Accessories', 'Electronics'],
     all_vendors: ['Acme Co', 'StyleBrand', 'TechGear'],
@@ -161,6 +220,79 @@ function generateMockCollection(index: number = 0): MockCollectionData {
   };
 }
 
+// Generate a cart line for one product variant
+function generateMockCartItem(
+  product: MockProductData,
+  variant: MockVariantData = product.variants[0],
+  quantity: number = 1
+): MockCartItem {
+  const originalPrice = variant.compare_at_price ?? variant.price;
+
+  return {
+    id: variant.id,
+    product_id: product.id,
+    variant_id: variant.id,
+    title: product.has_only_default_variant ? product.title : `${product.title} - ${variant.title}`,
+    product,
+    variant,
+    quantity,
+    price: variant.price,
+    line_price: variant.price * quantity,
+    original_price: originalPrice,
+    original_line_price: originalPrice * quantity,
+    discounted_price: variant.price,
+    final_price: variant.price,
+    final_line_price: variant.price * quantity,
+    image: variant.image ?? product.featured_image,
+    url: variant.url,
+    properties: {},
+  };
+}
+
+// Generate a cart whose totals add up from its lines
+function generateMockCart(items: MockCartItem[], currency: string = 'USD'): MockShopData['cart'] {
+  return {
+    currency: { iso_code: currency },
+    items,
+    item_count: items.reduce((sum, item) => sum + item.quantity, 0),
+    total_price: items.reduce((sum, item) => sum + item.final_line_price, 0),
+    original_total_price: items.reduce((sum, item) => sum + item.original_line_price, 0),
+  };
+}
+
+// Generate a signed-in customer with a default address
+function generateMockCustomer(): MockCustomer {
+  const address: MockAddressData = {
+    id: 8000,
+    first_name: 'Jane',
+    last_name: 'Cooper',
+    name: 'Jane Cooper',
+    company: null,
+    address1: '123 Market Street',
+    address2: 'Apt 4',
+    city: 'San Francisco',
+    province: 'California',
+    province_code: 'CA',
+    country: 'United States',
+    country_code: 'US',
+    zip: '94103',
+    phone: '+1 555 010 0199',
+  };
+
+  return {
+    id: 7000,
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: 'Cooper',
+    name: 'Jane Cooper',
+    orders_count: 3,
+    total_spent: 18497,
+    tags: ['vip'],
+    addresses: [address],
+    default_address: address,
+  };
+}
+
 // Generate default shop data
 function generateMockShop(): MockShopData {
   return {
@@ -171,6 +303,7 @@ function generateMockShop(): MockShopData {
       url: 'https://demo-store.myshopify.com',
       currency: { iso_code: 'USD' },
       money_format: '${{amount}}',
+      money_with_currency_format: '${{amount}} USD',
       enabled_payment_types: ['visa', 'mastercard', 'amex', 'paypal', 'apple_pay', 'google_pay'],
     },
     request: {
@@ -198,6 +331,10 @@ function generateMockShop(): MockShopData {
 
 // Generate default value based on setting type
 function getDefaultValue(setting: SectionSetting): unknown {
+  if (setting.type === 'font_picker') {
+    return toMockFont(setting.default ?? 'sans-serif_n4');
+  }
+
   if (setting.default !== undefined) {
     return setting.default;
   }
@@ -218,7 +355,6 @@ function getDefaultValue(setting: SectionSetting): unknown {
     radio: null,
     color: '#000000',
     color_background: 'rgba(0,0,0,0)',
-    font_picker: 'sans-serif',
     collection: null,
     collection_list: [],
     product: null,
@@ -248,6 +384,62 @@ function extractSettingsDefaults(settings: SectionSetting[]): Record<string, unk
   return result;
 }
 
+// A block as stored in section presets, templates/*.json and section group files.
+// Theme blocks can nest their own blocks, as an array (presets) or keyed by id with block_order.
+export interface StoredBlockData {
+  id?: string;
+  type: string;
+  settings?: Record<string, unknown>;
+  disabled?: boolean;
+  // Rendered by {% content_for 'block', id: ... %} rather than {% content_for 'blocks' %}
+  static?: boolean;
+  blocks?: StoredBlockData[] | Record<string, StoredBlockData>;
+  block_order?: string[];
+}
+
+// [id, block] pairs in render order; array blocks get ids from their position
+function listStoredBlocks(
+  blocks: StoredBlockData['blocks'],
+  blockOrder: string[] | undefined,
+  idPrefix: string
+): [string, StoredBlockData][] {
+  if (!blocks) return [];
+
+  if (Array.isArray(blocks)) {
+    return blocks.map((block, index) => [block.id ?? `${idPrefix}${index}`, block]);
+  }
+
+  // Static blocks are kept out of block_order but still belong to their parent
+  const order = blockOrder || Object.keys(blocks);
+  const staticIds = Object.keys(blocks).filter(id => blocks[id].static && !order.includes(id));
+  return [...order, ...staticIds]
+    .filter(id => blocks[id] && !blocks[id].disabled)
+    .map(id => [id, blocks[id]]);
+}
+
+// Build a block context, filling settings the block type declares in the section schema.
+// Theme blocks keep their settings in blocks/*.liquid; {% content_for %} fills those defaults.
+function createMockBlock(id: string, data: StoredBlockData, blockTypes: SectionBlock[]): MockBlockContext {
+  const blockType = blockTypes.find(bt => bt.type === data.type);
+  const block: MockBlockContext = {
+    id,
+    type: data.type,
+    settings: resolveFontSettings({ ...extractSettingsDefaults(blockType?.settings || []), ...(data.settings || {}) }),
+    shopify_attributes: `data-shopify-editor-block='{"id":"${id}","type":"${data.type}"}'`,
+  };
+
+  if (data.static) {
+    block.static = true;
+  }
+
+  if (data.blocks) {
+    block.blocks = listStoredBlocks(data.blocks, data.block_order, `${id}-`)
+      .map(([childId, child]) => createMockBlock(childId, child, blockTypes));
+  }
+
+  return block;
+}
+
 // Generate mock blocks from section schema
 function generateMockBlocks(
   blockTypes: SectionBlock[],
@@ -255,54 +447,45 @@ function generateMockBlocks(
 ): MockBlockContext[] {
   // If presets exist and have blocks, use them
   if (presets && Array.isArray(presets) && presets.length > 0) {
-    const preset = presets[0] as { blocks?: Array<{ type: string; settings?: Record<string, unknown> }> };
-    if (preset.blocks && Array.isArray(preset.blocks)) {
-      return preset.blocks.map((block, index) => {
-        const blockType = blockTypes.find(bt => bt.type === block.type);
-        const blockSettings = block.settings || {};
-
-        // Merge with defaults from block type
-        if (blockType?.settings) {
-          for (const setting of blockType.settings) {
-            if (!(setting.id in blockSettings)) {
-              blockSettings[setting.id] = getDefaultValue(setting);
-            }
-          }
-        }
-
-        return {
-          id: `block-${index}`,
-          type: block.type,
-          settings: blockSettings,
-          shopify_attributes: `data-shopify-editor-block='{"id":"block-${index}","type":"${block.type}"}'`,
-        };
-      });
+    const preset = presets[0] as Pick<StoredBlockData, 'blocks' | 'block_order'>;
+    if (preset.blocks && typeof preset.blocks === 'object') {
+      return listStoredBlocks(preset.blocks, preset.block_order, 'block-')
+        .map(([id, block]) => createMockBlock(id, block, blockTypes));
     }
   }
 
-  // Otherwise generate sample blocks from block types
-  return blockTypes.slice(0, 3).map((blockType, index) => {
-    const blockSettings: Record<string, unknown> = {};
+  // Otherwise generate sample blocks from block types; @theme and @app can't be sampled without knowing the theme
+  return blockTypes
+    .filter(blockType => !blockType.type.startsWith('@'))
+    .slice(0, 3)
+    .map((blockType, index) => createMockBlock(`block-${index}`, { type: blockType.type }, blockTypes));
+}
 
-    if (blockType.settings) {
-      for (const setting of blockType.settings) {
-        blockSettings[setting.id] = getDefaultValue(setting);
-      }
-    }
+// Stored section data, as found in templates/*.json and section group files
+export interface StoredSectionData {
+  settings?: Record<string, unknown>;
+  blocks?: Record<string, StoredBlockData>;
+  block_order?: string[];
+}
 
-    return {
-      id: `block-${index}`,
-      type: blockType.type,
-      settings: blockSettings,
-      shopify_attributes: `data-shopify-editor-block='{"id":"block-${index}","type":"${blockType.type}"}'`,
-    };
-  });
+// Build a section context from stored data, filling missing values with schema defaults
+function generateSectionContext(
+  sectionSchema: SectionData,
+  sectionId: string,
+  data: StoredSectionData = {}
+): MockSectionContext {
+  const settings = resolveFontSettings({ ...extractSettingsDefaults(sectionSchema.settings), ...(data.settings || {}) });
+  const blocks = listStoredBlocks(data.blocks, data.block_order, 'block-')
+    .map(([id, block]) => createMockBlock(id, block, sectionSchema.blocks));
+
+  return { id: sectionId, settings, blocks };
 }
 
 // Generate theme settings from preset
 function generateThemeSettings(preset?: {
   colors?: PresetColors;
   typography?: PresetTypography;
+  buttons?: PresetButtons;
 }): MockThemeSettings {
   const defaults: MockThemeSettings = {
     // Colors
@@ -315,8 +498,8 @@ function generateThemeSettings(preset?: {
     color_text_secondary: '#64748b',
 
     // Typography
-    typography_heading_font: 'Inter',
-    typography_body_font: 'Inter',
+    typography_heading_font: 'inter_n7',
+    typography_body_font: 'inter_n4',
     typography_heading_scale: 100,
     typography_body_scale: 100,
 
@@ -352,27 +535,33 @@ function generateThemeSettings(preset?: {
     defaults.typography_body_scale = preset.typography.body_scale;
   }
 
-  return defaults;
+  if (preset?.buttons) {
+    defaults.button_border_radius = preset.buttons.border_radius;
+    defaults.button_padding_vertical = preset.buttons.padding_vertical;
+    defaults.button_padding_horizontal = preset.buttons.padding_horizontal;
+  }
+
+  return resolveFontSettings(defaults);
 }
 
 // Generate mock entities based on section category
-function generateMockEntities(category: string): Partial<RenderContext> {
+function generateMockEntities(category: string, random?: MockRandom): Partial<RenderContext> {
   const result: Partial<RenderContext> = {};
 
   switch (category) {
     case 'product':
     case 'main-product':
-      result.product = generateMockProduct(0);
+      result.product = generateMockProduct(0, random);
       break;
 
     case 'collection':
     case 'main-collection':
-      result.collection = generateMockCollection(0);
+      result.collection = generateMockCollection(0, random);
       break;
 
     case 'featured-collection':
     case 'collection-list':
-      result.collections = Array.from({ length: 4 }, (_, i) => generateMockCollection(i));
+      result.collections = Array.from({ length: 4 }, (_, i) => generateMockCollection(i, random));
       result.collection = result.collections[0];
       break;
 
@@ -384,27 +573,42 @@ function generateMockEntities(category: string): Partial<RenderContext> {
 
     default:
       // Provide a default product and collection for flexibility
-      result.product = generateMockProduct(0);
-      result.collection = generateMockCollection(0);
+      result.product = generateMockProduct(0, random);
+      result.collection = generateMockCollection(0, random);
       break;
   }
 
   return result;
 }
 
+// Main menu links; seeded menus use between two and all of them
+const MAIN_MENU_LINKS: MockLinkData[] = [
+  { active: false, child_active: false, current: false, child_current: false, handle: 'home', levels: 0, links: [], object: null, title: 'Home', type: 'http', url: '/' },
+  { active: false, child_active: false, current: false, child_current: false, handle: 'catalog', levels: 0, links: [], object: null, title: 'Catalog', type: 'collection', url: '/collections/all' },
+  { active: false, child_active: false, current: false, child_current: false, handle: 'about', levels: 0, links: [], object: null, title: 'About', type: 'page', url: '/pages/about' },
+  { active: false, child_active: false, current: false, child_current: false, handle: 'contact', levels: 0, links: [], object: null, title: 'Contact', type: 'page', url: '/pages/contact' },
+  { active: false, child_active: false, current: false, child_current: false, handle: 'sale', levels: 0, links: [], object: null, title: 'Sale', type: 'collection', url: '/collections/sale' },
+  { active: false, child_active: false, current: false, child_current: false, handle: 'journal', levels: 0, links: [], object: null, title: 'Journal', type: 'blog', url: '/blogs/journal' },
+];
+
 // Main function to generate full render context from section schema
 export function generateMockDataFromSchema(
   sectionSchema: SectionData,
   preset?: {
     colors?: PresetColors;
     typography?: PresetTypography;
-  }
+    buttons?: PresetButtons;
+  },
+  options: MockDataOptions = {}
 ): RenderContext {
+  const random = options.seed !== undefined ? createMockRandom(options.seed) : undefined;
   const shopData = generateMockShop();
   const sectionSettings = extractSettingsDefaults(sectionSchema.settings);
   const blocks = generateMockBlocks(sectionSchema.blocks, sectionSchema.presets);
   const themeSettings = generateThemeSettings(preset);
-  const mockEntities = generateMockEntities(sectionSchema.category);
+  const mockEntities = generateMockEntities(sectionSchema.category, random);
+  const mainMenuLinks = MAIN_MENU_LINKS.slice(0, random ? random.int(2, MAIN_MENU_LINKS.length) : 4)
+    .map(link => ({ ...link }));
 
   return {
     // Global shop data
@@ -416,6 +620,7 @@ export function generateMockDataFromSchema(
     canonical_url: shopData.canonical_url,
     page_title: shopData.page_title,
     page_description: shopData.page_description,
+    current_page: 1,
 
     // Theme settings
     settings: themeSettings,
@@ -436,12 +641,7 @@ export function generateMockDataFromSchema(
         handle: 'main-menu',
         title: 'Main Menu',
         levels: 2,
-        links: [
-          { active: false, child_active: false, current: false, child_current: false, handle: 'home', levels: 0, links: [], object: null, title: 'Home', type: 'http', url: '/' },
-          { active: false, child_active: false, current: false, child_current: false, handle: 'catalog', levels: 0, links: [], object: null, title: 'Catalog', type: 'collection', url: '/collections/all' },
-          { active: false, child_active: false, current: false, child_current: false, handle: 'about', levels: 0, links: [], object: null, title: 'About', type: 'page', url: '/pages/about' },
-          { active: false, child_active: false, current: false, child_current: false, handle: 'contact', levels: 0, links: [], object: null, title: 'Contact', type: 'page', url: '/pages/contact' },
-        ],
+        links: mainMenuLinks,
       },
       'footer-menu': {
         handle: 'footer-menu',
@@ -481,5 +681,10 @@ export {
   generateMockCollection,
   generateMockImage,
   generateMockShop,
+  generateMockCart,
+  generateMockCartItem,
+  generateMockCustomer,
   generateThemeSettings,
+  generateSectionContext,
+  extractSettingsDefaults,
 };
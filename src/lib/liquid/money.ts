@@ -0,0 +1,92 @@
+import type { RenderContext } from './mock-data';
+
+export interface CurrencyFormat {
+  code: string;
+  name: string;
+  money_format: string;
+  money_with_currency_format: string;
+}
+
+// Store formats as merchants configure them in Shopify admin, for previewing other markets
+export const CURRENCY_FORMATS: Record<string, CurrencyFormat> = {
+  USD: { code: 'USD', name: 'US Dollar', money_format: '${{amount}}', money_with_currency_format: '${{amount}} USD' },
+  CAD: { code: 'CAD', name: 'Canadian Dollar', money_format: '${{amount}}', money_with_currency_format: '${{amount}} CAD' },
+  AUD: { code: 'AUD', name: 'Australian Dollar', money_format: '${{amount}}', money_with_currency_format: '${{amount}} AUD' },
+  GBP: { code: 'GBP', name: 'British Pound', money_format: '£{{amount}}', money_with_currency_format: '£{{amount}} GBP' },
+  EUR: { code: 'EUR', name: 'Euro', money_format: '€{{amount_with_comma_separator}}', money_with_currency_format: '€{{amount_with_comma_separator}} EUR' },
+  CHF: { code: 'CHF', name: 'Swiss Franc', money_format: 'CHF {{amount_with_apostrophe_separator}}', money_with_currency_format: 'CHF {{amount_with_apostrophe_separator}}' },
+  SEK: { code: 'SEK', name: 'Swedish Krona', money_format: '{{amount_with_space_separator}} kr', money_with_currency_format: '{{amount_with_space_separator}} kr SEK' },
+  PLN: { code: 'PLN', name: 'Polish Zloty', money_format: '{{amount_with_comma_separator}} zł', money_with_currency_format: '{{amount_with_comma_separator}} zł PLN' },
+  BRL: { code: 'BRL', name: 'Brazilian Real', money_format: 'R$ {{amount_with_comma_separator}}', money_with_currency_format: 'R$ {{amount_with_comma_separator}} BRL' },
+  JPY: { code: 'JPY', name: 'Japanese Yen', money_format: '¥{{amount_no_decimals}}', money_with_currency_format: '¥{{amount_no_decimals}} JPY' },
+  KRW: { code: 'KRW', name: 'South Korean Won', money_format: '₩{{amount_no_decimals}}', money_with_currency_format: '₩{{amount_no_decimals}} KRW' },
+  INR: { code: 'INR', name: 'Indian Rupee', money_format: 'Rs. {{amount}}', money_with_currency_format: 'Rs. {{amount}} INR' },
+  IDR: { code: 'IDR', name: 'Indonesian Rupiah', money_format: 'Rp {{amount_no_decimals_with_comma_separator}}', money_with_currency_format: 'Rp {{amount_no_decimals_with_comma_separator}} IDR' },
+};
+
+const AMOUNT_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/;
+
+function groupThousands(integer: string, separator: string): string {
+  return integer.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+function formatAmount(cents: number, precision: number, thousands: string, decimal: string): string {
+  const [integer, fraction] = (cents / 100).toFixed(precision).split('.');
+  const grouped = groupThousands(integer, thousands);
+  return fraction ? `${grouped}${decimal}${fraction}` : grouped;
+}
+
+// The number part of a Shopify money format placeholder
+export function formatMoneyAmount(cents: number, placeholder: string): string {
+  switch (placeholder) {
+    case 'amount_no_decimals':
+      return formatAmount(cents, 0, ',', '.');
+    case 'amount_with_comma_separator':
+      return formatAmount(cents, 2, '.', ',');
+    case 'amount_no_decimals_with_comma_separator':
+      return formatAmount(cents, 0, '.', ',');
+    case 'amount_with_apostrophe_separator':
+      return formatAmount(cents, 2, "'", '.');
+    case 'amount_no_decimals_with_space_separator':
+      return formatAmount(cents, 0, ' ', ',');
+    case 'amount_with_space_separator':
+      return formatAmount(cents, 2, ' ', ',');
+    case 'amount_with_period_and_space_separator':
+      return formatAmount(cents, 2, ' ', '.');
+    case 'amount':
+    default:
+      return formatAmount(cents, 2, ',', '.');
+  }
+}
+
+// Apply a Shopify money format such as "€{{amount_with_comma_separator}}" to an amount in cents
+export function formatMoney(cents: unknown, format: string): string {
+  const value = Number(cents);
+  const amount = Number.isFinite(value) ? Math.round(value) : 0;
+  return format.replace(AMOUNT_PLACEHOLDER, (_match, placeholder: string) => formatMoneyAmount(amount, placeholder));
+}
+
+// Just the number, formatted the way the money format formats it
+export function formatMoneyWithoutCurrency(cents: unknown, format: string): string {
+  const placeholder = format.match(AMOUNT_PLACEHOLDER)?.[1] ?? 'amount';
+  return formatMoney(cents, `{{${placeholder}}}`);
+}
+
+// Whole amounts drop their decimals: $20.00 -> $20, €20,50 stays €20,50
+export function formatMoneyWithoutTrailingZeros(cents: unknown, format: string): string {
+  return formatMoney(cents, format).replace(/([.,])00(?!\d)/, '');
+}
+
+// Switch the mock shop to another currency's formats
+export function setPreviewCurrency(context: RenderContext, code: string): void {
+  const currency = CURRENCY_FORMATS[code.toUpperCase()];
+  if (!currency) return;
+
+  context.shop = {
+    ...context.shop,
+    currency: { iso_code: currency.code },
+    money_format: currency.money_format,
+    money_with_currency_format: currency.money_with_currency_format,
+  };
+  context.cart = { ...context.cart, currency: { iso_code: currency.code } };
+}
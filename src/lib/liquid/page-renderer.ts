@@ -0,0 +1,356 @@
+import type { Liquid } from 'liquidjs';
+import { getProjectFile, getProjectFilesByPrefix } from '../project/files';
+import { generateMockDataFromSchema, generateSectionContext } from './mock-generator';
+import type { StoredSectionData } from './mock-generator';
+import { extractSchemaFromLiquid, schemaToSectionData } from './schema';
+import {
+  loadSectionData,
+  loadPresetData,
+  loadSectionTemplate,
+  loadRenderEngine,
+  getRenderGlobals,
+  generateTemplateFromSchema,
+  generatePreviewCSS,
+} from './renderer';
+import { setRequestLocale } from './locales';
+import { setPreviewCurrency } from './money';
+import { setPreviewPage } from './pagination';
+import { resolveFontSettings } from './fonts';
+import { applyMockFixtures } from './fixtures';
+import { applyMockMetaobjects } from './metaobjects';
+import { escapeHtml } from './html';
+import { getProjectFixtures } from '../project/fixtures';
+import { getProjectMetaobjectDefinitions } from '../project/metaobjects';
+import type { RenderContext } from './mock-data';
+import type { MockSeed } from './random';
+import type { SectionData } from '../db/schema';
+
+// A section entry inside a JSON template (templates/*.json)
+export interface TemplateSectionData extends StoredSectionData {
+  type: string;
+  disabled?: boolean;
+}
+
+// Parsed JSON template file
+export interface ThemeTemplateData {
+  layout?: string | false;
+  sections: Record<string, TemplateSectionData>;
+  order: string[];
+}
+
+export interface PageRenderOptions {
+  projectSlug: string;
+  template: string;
+  presetSlug?: string;
+  locale?: string;
+  currency?: string;
+  seed?: MockSeed;
+  page?: number;
+  locals: App.Locals;
+}
+
+export interface PageSectionResult {
+  id: string;
+  type: string;
+  group?: string;
+  errors: string[];
+}
+
+export interface PageRenderResult {
+  html: string;
+  css: string;
+  errors: string[];
+  sections: PageSectionResult[];
+  renderTimeMs: number;
+}
+
+// Template context per template name, mirroring Shopify's global objects per page type
+const TEMPLATE_CATEGORIES: Record<string, string> = {
+  product: 'product',
+  collection: 'collection',
+  'list-collections': 'collection-list',
+};
+
+// "product", "product.alternate" or "templates/product.json" -> "templates/product.json"
+export function normalizeTemplatePath(template: string): string {
+  const name = template.replace(/^templates\//, '').replace(/\.json$/, '');
+  return `templates/${name}.json`;
+}
+
+// Shopify allows a leading /* ... */ comment in JSON templates
+export function parseTemplateJSON(content: string): ThemeTemplateData | null {
+  try {
+    const data = JSON.parse(content.replace(/^\s*\/\*[\s\S]*?\*\//, '')) as Partial<ThemeTemplateData>;
+    return {
+      layout: data.layout,
+      sections: data.sections || {},
+      order: data.order || Object.keys(data.sections || {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Read theme settings saved in the project's config/settings_data.json
+async function loadProjectThemeSettings(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<Record<string, unknown>> {
+  const content = await getProjectFile(projectSlug, 'config/settings_data.json', locals);
+  if (!content) return {};
+
+  try {
+    const data = JSON.parse(content) as {
+      current?: string | Record<string, unknown>;
+      presets?: Record<string, Record<string, unknown>>;
+    };
+    if (data.current && typeof data.current === 'object') {
+      return data.current;
+    }
+    return data.presets?.[data.current || 'Default'] ?? {};
+  } catch {
+    return {};
+  }
+}
+
+// Saved theme settings apply unless a preset was explicitly requested
+export async function applyProjectThemeSettings(
+  context: RenderContext,
+  projectSlug: string,
+  presetSlug: string | undefined,
+  locals: App.Locals
+): Promise<void> {
+  const projectSettings = resolveFontSettings(await loadProjectThemeSettings(projectSlug, locals));
+  context.settings = (presetSlug
+    ? { ...projectSettings, ...context.settings }
+    : { ...context.settings, ...projectSettings }) as RenderContext['settings'];
+}
+
+// Resolve the Liquid source and schema for a section type: project file first, then library
+export async function loadSectionSource(
+  projectSlug: string,
+  type: string,
+  locals: App.Locals
+): Promise<{ source: string; schema: SectionData; generated: boolean } | null> {
+  const librarySection = await loadSectionData(type);
+
+  const projectSource = await getProjectFile(projectSlug, `sections/${type}.liquid`, locals);
+  if (projectSource) {
+    const schema = extractSchemaFromLiquid(projectSource);
+    const sectionData = schema
+      ? schemaToSectionData(type, schema, librarySection?.category)
+      : librarySection ?? schemaToSectionData(type, {});
+    return { source: projectSource, schema: sectionData, generated: false };
+  }
+
+  if (!librarySection) return null;
+
+  const libraryTemplate = await loadSectionTemplate(type);
+  return {
+    source: libraryTemplate ?? generateTemplateFromSchema(librarySection),
+    schema: librarySection,
+    generated: !libraryTemplate,
+  };
+}
+
+// Render one section of a template, wrapped the way Shopify wraps it
+export async function renderTemplateSection(
+  engine: Liquid,
+  pageContext: RenderContext,
+  sectionId: string,
+  data: TemplateSectionData,
+  projectSlug: string,
+  locals: App.Locals
+): Promise<{ html: string; errors: string[]; generatedSchema?: SectionData }> {
+  const resolved = await loadSectionSource(projectSlug, data.type, locals);
+  if (!resolved) {
+    const message = `Section not found: ${data.type}`;
+    return { html: `<div class="error">${escapeHtml(message)}</div>`, errors: [message] };
+  }
+
+  const section = generateSectionContext(resolved.schema, sectionId, data);
+  const context: RenderContext = { ...pageContext, section };
+
+  try {
+    const inner = await engine.parseAndRender(resolved.source, context, {
+      globals: getRenderGlobals(context),
+    });
+    return {
+      html: `<div id="shopify-section-${sectionId}" class="shopify-section">${inner}</div>`,
+      errors: [],
+      generatedSchema: resolved.generated ? resolved.schema : undefined,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown render error';
+    return {
+      html: `<div class="error">Render error in ${escapeHtml(data.type)}: ${escapeHtml(message)}</div>`,
+      errors: [`${data.type}: ${message}`],
+    };
+  }
+}
+
+// Render every sections/*-group.json file, keyed by group name for the {% sections %} tag
+async function renderSectionGroups(
+  engine: Liquid,
+  pageContext: RenderContext,
+  projectSlug: string,
+  locals: App.Locals
+): Promise<{ groups: Record<string, string>; sections: PageSectionResult[]; errors: string[] }> {
+  const groups: Record<string, string> = {};
+  const sections: PageSectionResult[] = [];
+  const errors: string[] = [];
+
+  const files = await getProjectFilesByPrefix(projectSlug, 'sections/', locals);
+
+  for (const file of files) {
+    const match = file.path.match(/^sections\/([\w-]+-group)\.json$/);
+    if (!match) continue;
+
+    const group = match[1];
+    const groupData = parseTemplateJSON(file.content);
+    if (!groupData) {
+      errors.push(`${file.path} is not valid JSON`);
+      continue;
+    }
+
+    const groupHtml: string[] = [];
+    for (const id of groupData.order) {
+      const data = groupData.sections[id];
+      if (!data || data.disabled) continue;
+
+      const result = await renderTemplateSection(
+        engine,
+        pageContext,
+        `sections--${group}__${id}`,
+        data,
+        projectSlug,
+        locals
+      );
+      groupHtml.push(result.html);
+      sections.push({ id, type: data.type, group, errors: result.errors });
+      errors.push(...result.errors);
+    }
+
+    groups[group] = `<!-- BEGIN sections: ${group} -->\n${groupHtml.join('\n')}\n<!-- END sections: ${group} -->`;
+  }
+
+  return { groups, sections, errors };
+}
+
+// Render a full storefront page from a JSON template wrapped in its layout
+export async function renderPage(options: PageRenderOptions): Promise<PageRenderResult> {
+  const { projectSlug, template, presetSlug, locale, currency, seed, page, locals } = options;
+  const startTime = performance.now();
+  const errors: string[] = [];
+  const sectionResults: PageSectionResult[] = [];
+
+  const templatePath = normalizeTemplatePath(template);
+  const templateName = templatePath.replace(/^templates\//, '').replace(/\.json$/, '');
+  const [baseName, suffix] = templateName.split('.');
+
+  const templateContent = await getProjectFile(projectSlug, templatePath, locals);
+  if (!templateContent) {
+    throw new Error(`Template "${templatePath}" not found in project "${projectSlug}"`);
+  }
+
+  const templateData = parseTemplateJSON(templateContent);
+  if (!templateData) {
+    throw new Error(`Template "${templatePath}" is not valid JSON`);
+  }
+
+  const { engine } = await loadRenderEngine(projectSlug, locals);
+  const presetData = presetSlug ? await loadPresetData(presetSlug, locals) : null;
+
+  // Page-wide context: global objects for this template type
+  const pageSchema: SectionData = {
+    name: templateName,
+    slug: templateName,
+    category: TEMPLATE_CATEGORIES[baseName] ?? 'default',
+    settings: [],
+    blocks: [],
+    maxBlocks: 0,
+    presets: [],
+  };
+  const pageContext = generateMockDataFromSchema(pageSchema, presetData ?? undefined, { seed });
+  const fixtures = await getProjectFixtures(projectSlug, locals);
+  if (fixtures) {
+    applyMockFixtures(pageContext, fixtures);
+  }
+  applyMockMetaobjects(pageContext, await getProjectMetaobjectDefinitions(projectSlug, locals), { seed });
+  pageContext.template = { name: baseName, suffix: suffix ?? null };
+  if (locale) {
+    setRequestLocale(pageContext, locale);
+  }
+  if (currency) {
+    setPreviewCurrency(pageContext, currency);
+  }
+  if (page) {
+    setPreviewPage(pageContext, page);
+  }
+
+  await applyProjectThemeSettings(pageContext, projectSlug, presetSlug, locals);
+
+  // Render each section in template order
+  const sectionHtml: string[] = [];
+  let generatedSchema: SectionData | undefined;
+
+  for (const id of templateData.order) {
+    const data = templateData.sections[id];
+    if (!data || data.disabled) continue;
+
+    const result = await renderTemplateSection(
+      engine,
+      pageContext,
+      `template--${templateName}__${id}`,
+      data,
+      projectSlug,
+      locals
+    );
+    sectionHtml.push(result.html);
+    sectionResults.push({ id, type: data.type, errors: result.errors });
+    errors.push(...result.errors);
+    generatedSchema = generatedSchema ?? result.generatedSchema;
+  }
+
+  const content = sectionHtml.join('\n');
+
+  // Generated section templates rely on the preview stylesheet
+  const css = generatedSchema ? generatePreviewCSS(generatedSchema, presetData) : '';
+
+  // Wrap in layout (layout: false renders the sections alone)
+  let html = content;
+  if (templateData.layout !== false) {
+    const layoutName = templateData.layout || 'theme';
+    const layoutSource = await getProjectFile(projectSlug, `layout/${layoutName}.liquid`, locals);
+
+    if (!layoutSource) {
+      errors.push(`Layout not found: layout/${layoutName}.liquid`);
+    } else {
+      const groupResult = await renderSectionGroups(engine, pageContext, projectSlug, locals);
+      sectionResults.push(...groupResult.sections);
+      errors.push(...groupResult.errors);
+
+      const layoutContext: RenderContext = {
+        ...pageContext,
+        content_for_layout: content,
+        section_groups: groupResult.groups,
+      };
+      try {
+        html = await engine.parseAndRender(layoutSource, layoutContext, {
+          globals: getRenderGlobals(layoutContext),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown render error';
+        errors.push(`layout/${layoutName}.liquid: ${message}`);
+      }
+    }
+  }
+
+  return {
+    html,
+    css,
+    errors,
+    sections: sectionResults,
+    renderTimeMs: Math.round(performance.now() - startTime),
+  };
+}
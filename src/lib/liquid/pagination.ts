@@ -0,0 +1,136 @@
+import type { RenderContext } from './mock-data';
+
+export interface PaginatePart {
+  title: string;
+  url: string;
+  is_link: boolean;
+}
+
+// The paginate object available inside {% paginate %}
+export interface PaginateData {
+  current_offset: number;
+  current_page: number;
+  items: number;
+  page_param: string;
+  page_size: number;
+  pages: number;
+  parts: PaginatePart[];
+  previous?: PaginatePart;
+  next?: PaginatePart;
+}
+
+export interface PaginationOptions {
+  // Pages shown on each side of the current one before collapsing into an ellipsis
+  windowSize?: number;
+}
+
+// Shopify accepts page sizes between 1 and 250
+export const MAX_PAGE_SIZE = 250;
+const DEFAULT_WINDOW_SIZE = 3;
+
+// "/search?q=shirt", 2 -> "/search?q=shirt&page=2"
+export function getPageUrl(baseUrl: string, page: number): string {
+  const [path, query = ''] = baseUrl.split('?');
+  const params = new URLSearchParams(query);
+  params.set('page', String(page));
+  return `${path}?${params.toString()}`;
+}
+
+// Page numbers, linked except the current page, with one ellipsis for each run of hidden pages
+function buildParts(currentPage: number, pages: number, baseUrl: string, windowSize: number): PaginatePart[] {
+  const parts: PaginatePart[] = [];
+  let inGap = false;
+
+  for (let page = 1; page <= pages; page++) {
+    const link = { title: String(page), url: getPageUrl(baseUrl, page), is_link: true };
+
+    if (page === currentPage) {
+      parts.push({ ...link, is_link: false });
+    } else if (page === 1 || page === pages) {
+      parts.push(link);
+    } else if (page <= currentPage - windowSize || page >= currentPage + windowSize) {
+      if (!inGap) {
+        parts.push({ title: '&hellip;', url: '', is_link: false });
+        inGap = true;
+      }
+      continue;
+    } else {
+      parts.push(link);
+    }
+
+    inGap = false;
+  }
+
+  return parts;
+}
+
+// Slice items to one page and describe the pagination around it.
+// Pages past the end are empty, as they are on a live store.
+export function paginateItems<T>(
+  items: T[],
+  pageSize: number,
+  currentPage: number,
+  baseUrl: string,
+  options: PaginationOptions = {}
+): { items: T[]; paginate: PaginateData } {
+  const size = Math.min(Math.max(Math.floor(pageSize) || 1, 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(currentPage) || 1, 1);
+  const pages = Math.ceil(items.length / size);
+  const offset = (page - 1) * size;
+
+  const paginate: PaginateData = {
+    current_offset: offset,
+    current_page: page,
+    items: items.length,
+    page_param: 'page',
+    page_size: size,
+    pages,
+    parts: pages > 1 ? buildParts(page, pages, baseUrl, options.windowSize ?? DEFAULT_WINDOW_SIZE) : [],
+  };
+
+  if (page > 1 && page <= pages) {
+    paginate.previous = { title: '&laquo; Previous', url: getPageUrl(baseUrl, page - 1), is_link: true };
+  }
+  if (page < pages) {
+    paginate.next = { title: 'Next &raquo;', url: getPageUrl(baseUrl, page + 1), is_link: true };
+  }
+
+  return { items: items.slice(offset, offset + size), paginate };
+}
+
+// {{ paginate | default_pagination: next: 'Older', previous: 'Newer', anchor: 'results' }}
+export function generateDefaultPagination(
+  paginate: PaginateData | undefined,
+  options: { next?: string; previous?: string; anchor?: string } = {}
+): string {
+  if (!paginate || paginate.pages <= 1) return '';
+
+  const anchor = options.anchor ? `#${options.anchor}` : '';
+  const link = (url: string, title: string) => `<a href="${url}${anchor}" title="">${title}</a>`;
+  const html: string[] = [];
+
+  if (paginate.previous) {
+    html.push(`<span class="prev">${link(paginate.previous.url, options.previous ?? paginate.previous.title)}</span>`);
+  }
+
+  for (const part of paginate.parts) {
+    if (part.is_link) {
+      html.push(`<span class="page">${link(part.url, part.title)}</span>`);
+    } else if (part.title === '&hellip;') {
+      html.push(`<span class="deco">${part.title}</span>`);
+    } else {
+      html.push(`<span class="page current">${part.title}</span>`);
+    }
+  }
+
+  if (paginate.next) {
+    html.push(`<span class="next">${link(paginate.next.url, options.next ?? paginate.next.title)}</span>`);
+  }
+
+  return html.join(' ');
+}
+
+// Preview a later page of paginated sections (?page=2 on a live store)
+export function setPreviewPage(context: RenderContext, page: number): void {
+  context.current_page = Math.max(Math.floor(page) || 1, 1);
+}
@@ -0,0 +1,146 @@
+// Placeholder images served by /api/placeholder/[size], so previews work offline
+
+export type PlaceholderCrop = 'center' | 'top' | 'bottom' | 'left' | 'right';
+
+export interface PlaceholderOptions {
+  width: number;
+  height: number;
+  label?: string;
+  crop?: PlaceholderCrop;
+  background?: string;
+  color?: string;
+}
+
+export interface PlaceholderResize {
+  width?: number;
+  height?: number;
+  crop?: string;
+}
+
+export const MAX_PLACEHOLDER_SIZE = 4000;
+
+const PLACEHOLDER_PATH = '/api/placeholder/';
+const DEFAULT_BACKGROUND = 'e2e8f0';
+const DEFAULT_COLOR = '64748b';
+const CROPS: PlaceholderCrop[] = ['center', 'top', 'bottom', 'left', 'right'];
+
+export function isPlaceholderCrop(value: unknown): value is PlaceholderCrop {
+  return typeof value === 'string' && (CROPS as string[]).includes(value);
+}
+
+// Hex colors without the leading # ("e2e8f0", "fff")
+export function isPlaceholderColor(value: unknown): value is string {
+  return typeof value === 'string' && /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+export function clampPlaceholderSize(value: number): number {
+  if (!Number.isFinite(value)) return 1;
+  return Math.min(MAX_PLACEHOLDER_SIZE, Math.max(1, Math.round(value)));
+}
+
+export function getPlaceholderImage(
+  width: number,
+  height: number,
+  label?: string,
+  crop?: PlaceholderCrop
+): string {
+  const params = new URLSearchParams();
+  if (label) params.set('text', label);
+  if (crop && crop !== 'center') params.set('crop', crop);
+  const query = params.toString();
+  return `${PLACEHOLDER_PATH}${clampPlaceholderSize(width)}x${clampPlaceholderSize(height)}${query ? `?${query}` : ''}`;
+}
+
+// Read size and label back from a placeholder URL; null for any other URL
+export function parsePlaceholderUrl(src: string): { width: number; height: number; label?: string } | null {
+  if (!src.startsWith(PLACEHOLDER_PATH)) return null;
+
+  const [path, query = ''] = src.slice(PLACEHOLDER_PATH.length).split('?');
+  const match = path.match(/^(\d+)x(\d+)$/);
+  if (!match) return null;
+
+  const label = new URLSearchParams(query).get('text') ?? undefined;
+  return { width: Number(match[1]), height: Number(match[2]), label };
+}
+
+// Apply image_url sizing to a placeholder. Like Shopify's CDN, width and height
+// without crop fit inside the box keeping the aspect ratio; with crop they're exact.
+export function resizePlaceholderImage(src: string, resize: PlaceholderResize): string {
+  const original = parsePlaceholderUrl(src) ?? { width: 400, height: 400 };
+  const aspect = original.width / original.height;
+  const crop = isPlaceholderCrop(resize.crop) ? resize.crop : undefined;
+
+  let { width, height } = resize;
+  if (width && height) {
+    if (!crop) {
+      if (width / height > aspect) {
+        width = height * aspect;
+      } else {
+        height = width / aspect;
+      }
+    }
+  } else if (width) {
+    height = width / aspect;
+  } else if (height) {
+    width = height * aspect;
+  } else {
+    width = original.width;
+    height = original.height;
+  }
+
+  return getPlaceholderImage(width!, height!, original.label, crop);
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Landscape glyph with a size label, placed by crop like the subject of a cropped photo
+export function generatePlaceholderSVG(options: PlaceholderOptions): string {
+  const width = clampPlaceholderSize(options.width);
+  const height = clampPlaceholderSize(options.height);
+  const background = `#${isPlaceholderColor(options.background) ? options.background : DEFAULT_BACKGROUND}`;
+  const color = `#${isPlaceholderColor(options.color) ? options.color : DEFAULT_COLOR}`;
+  const label = options.label || `${width} × ${height}`;
+
+  const unit = Math.min(width, height);
+  const glyph = unit * 0.3;
+  const fontSize = Math.max(10, Math.round(unit / 12));
+  const blockHeight = glyph * 0.75 + fontSize * 1.6;
+
+  let cx = width / 2;
+  let top = (height - blockHeight) / 2;
+  switch (options.crop) {
+    case 'top':
+      top = Math.min(top, unit * 0.1);
+      break;
+    case 'bottom':
+      top = Math.max(top, height - blockHeight - unit * 0.1);
+      break;
+    case 'left':
+      cx = Math.min(cx, glyph / 2 + unit * 0.1);
+      break;
+    case 'right':
+      cx = Math.max(cx, width - glyph / 2 - unit * 0.1);
+      break;
+  }
+
+  const x = cx - glyph / 2;
+  const round = (n: number) => Math.round(n * 10) / 10;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    `<g fill="none" stroke="${color}" stroke-width="${round(Math.max(1, glyph / 24))}" stroke-linejoin="round">`,
+    `<rect x="${round(x)}" y="${round(top)}" width="${round(glyph)}" height="${round(glyph * 0.75)}" rx="${round(glyph / 16)}"/>`,
+    `<path d="M${round(x)} ${round(top + glyph * 0.6)} L${round(x + glyph * 0.35)} ${round(top + glyph * 0.3)} L${round(x + glyph * 0.6)} ${round(top + glyph * 0.5)} L${round(x + glyph * 0.75)} ${round(top + glyph * 0.4)} L${round(x + glyph)} ${round(top + glyph * 0.6)}"/>`,
+    `<circle cx="${round(x + glyph * 0.72)}" cy="${round(top + glyph * 0.2)}" r="${round(glyph * 0.07)}"/>`,
+    `</g>`,
+    `<text x="${round(cx)}" y="${round(top + glyph * 0.75 + fontSize * 1.4)}" fill="${color}" font-family="system-ui, sans-serif" font-size="${fontSize}" text-anchor="middle">${escapeXml(label)}</text>`,
+    `</svg>`,
+  ].join('');
+}
@@ -0,0 +1,176 @@
+import { getDB, parseJSON } from '../db';
+import type { ProjectSectionRow } from '../db/schema';
+import { generateMockDataFromSchema } from './mock-generator';
+import { schemaToSectionData } from './schema';
+import { setRequestLocale } from './locales';
+import { setPreviewCurrency } from './money';
+import { setPreviewPage } from './pagination';
+import { resolveFontSettings } from './fonts';
+import { applyMockFixtures } from './fixtures';
+import { applyMockMetaobjects } from './metaobjects';
+import { applyPreviewScenarios } from './scenarios';
+import { getProjectFixtures } from '../project/fixtures';
+import { getProjectMetaobjectDefinitions } from '../project/metaobjects';
+import type { MockSeed } from './random';
+import {
+  getCachedPreview,
+  setCachedPreview,
+  generateCacheKey,
+  hashSettings,
+  type CacheEntry,
+} from './cache';
+import {
+  loadPresetData,
+  loadRenderEngine,
+  getRenderGlobals,
+  generatePreviewCSS,
+} from './renderer';
+import type { RenderResult } from './renderer';
+import { applyProjectThemeSettings, loadSectionSource } from './page-renderer';
+
+export interface ProjectSectionRenderOptions {
+  projectSlug: string;
+  projectSectionId: number;
+  presetSlug?: string;
+  // Unsaved values from the settings panel, layered over the saved settings
+  customSettings?: Record<string, unknown>;
+  locale?: string;
+  currency?: string;
+  seed?: MockSeed;
+  scenarios?: string[];
+  page?: number;
+  locals: App.Locals;
+  skipCache?: boolean;
+}
+
+// Render a section as the project ships it: the project's Liquid file, its
+// custom schema and the settings saved on project_sections
+export async function renderProjectSection(options: ProjectSectionRenderOptions): Promise<RenderResult> {
+  const { projectSlug, projectSectionId, presetSlug, customSettings, locale, currency, seed, scenarios, page, locals, skipCache } = options;
+  const startTime = performance.now();
+  const errors: string[] = [];
+  const db = getDB(locals);
+
+  const row = await db
+    .prepare(`
+      SELECT ps.* FROM project_sections ps
+      JOIN projects p ON p.id = ps.project_id
+      WHERE ps.id = ? AND p.slug = ?
+    `)
+    .bind(projectSectionId, projectSlug)
+    .first<ProjectSectionRow>();
+
+  if (!row) {
+    const message = `Project section not found: ${projectSectionId}`;
+    return {
+      html: `<div class="error">${message}</div>`,
+      css: '',
+      errors: [message],
+      renderTimeMs: performance.now() - startTime,
+      cached: false,
+    };
+  }
+
+  const resolved = await loadSectionSource(projectSlug, row.section_slug, locals);
+  if (!resolved) {
+    const message = `Section not found: ${row.section_slug}`;
+    return {
+      html: `<div class="error">${message}</div>`,
+      css: '',
+      errors: [message],
+      renderTimeMs: performance.now() - startTime,
+      cached: false,
+    };
+  }
+
+  // A schema edited in the builder overrides the one in the Liquid file
+  const customSchema = parseJSON<Record<string, unknown>>(row.custom_schema);
+  const schema = customSchema
+    ? schemaToSectionData(row.section_slug, customSchema, resolved.schema.category)
+    : resolved.schema;
+
+  const savedSettings = parseJSON<Record<string, unknown>>(row.settings) ?? {};
+  const settings = { ...savedSettings, ...(customSettings ?? {}) };
+
+  const { engine, engineHash } = await loadRenderEngine(projectSlug, locals);
+  const presetData = presetSlug ? await loadPresetData(presetSlug, locals) : undefined;
+
+  const fixtures = await getProjectFixtures(projectSlug, locals);
+  const metaobjectDefinitions = await getProjectMetaobjectDefinitions(projectSlug, locals);
+
+  const context = generateMockDataFromSchema(schema, presetData ?? undefined, { seed });
+  if (fixtures) {
+    applyMockFixtures(context, fixtures);
+  }
+  applyMockMetaobjects(context, metaobjectDefinitions, { seed });
+  if (scenarios) {
+    applyPreviewScenarios(context, scenarios);
+  }
+  resolveFontSettings(Object.assign(context.section.settings, settings));
+  await applyProjectThemeSettings(context, projectSlug, presetSlug, locals);
+  if (locale) {
+    setRequestLocale(context, locale);
+  }
+  if (currency) {
+    setPreviewCurrency(context, currency);
+  }
+  if (page) {
+    setPreviewPage(context, page);
+  }
+
+  // Everything stored in the project feeds the key, so edits never serve a stale preview
+  const contextHash = hashSettings({
+    engine: engineHash,
+    locale,
+    currency,
+    seed,
+    scenarios,
+    page: context.current_page,
+    fixtures,
+    metaobjects: metaobjectDefinitions.map(d => d.slug),
+    source: resolved.source,
+    schema,
+    settings,
+    themeSettings: context.settings,
+  });
+  const cacheKey = generateCacheKey(`${projectSlug}:${row.id}`, presetSlug, undefined, contextHash);
+
+  if (!skipCache) {
+    const cached = await getCachedPreview(cacheKey, locals);
+    if (cached) {
+      return {
+        html: cached.html,
+        css: cached.css ?? '',
+        errors: [],
+        renderTimeMs: cached.renderTimeMs,
+        cached: true,
+      };
+    }
+  }
+
+  let html: string;
+
+  try {
+    html = await engine.parseAndRender(resolved.source, context, { globals: getRenderGlobals(context) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown render error';
+    errors.push(message);
+    html = `<div class="error">Render error: ${message}</div>`;
+  }
+
+  const css = generatePreviewCSS(schema, presetData);
+  const renderTimeMs = Math.round(performance.now() - startTime);
+
+  if (!skipCache && errors.length === 0) {
+    const cacheEntry: CacheEntry = { html, css, renderTimeMs };
+    await setCachedPreview(cacheKey, row.section_slug, presetSlug ?? null, cacheEntry, 60, locals);
+  }
+
+  return {
+    html,
+    css,
+    errors,
+    renderTimeMs,
+    cached: false,
+  };
+}
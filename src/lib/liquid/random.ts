@@ -0,0 +1,43 @@
+// Seeded random numbers for mock data, so a seed always renders the same store
+
+export type MockSeed = number | string;
+
+export interface MockRandom {
+  // Float in [0, 1)
+  next(): number;
+  // Integer in [min, max], inclusive
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  chance(probability: number): boolean;
+}
+
+// FNV-1a, so string seeds ("sold-out-grid") work as well as numbers
+function hashSeed(seed: MockSeed): number {
+  const str = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: tiny, fast and good enough for picking mock values
+export function createMockRandom(seed: MockSeed): MockRandom {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    chance: (probability) => next() < probability,
+  };
+}
@@ -1,6 +1,13 @@
 import { getCollection } from 'astro:content';
-import { getLiquidEngine } from './engine';
+import type { Liquid } from 'liquidjs';
+import { getLiquidEngine, createLiquidEngine } from './engine';
 import { generateMockDataFromSchema } from './mock-generator';
+import { loadProjectSnippets } from './snippets';
+import { loadProjectThemeBlocks } from './theme-blocks';
+import { loadProjectLocales, setRequestLocale } from './locales';
+import { setPreviewCurrency } from './money';
+import { setPreviewPage } from './pagination';
+import { resolveFontSettings } from './fonts';
 import {
   getCachedPreview,
   setCachedPreview,
@@ -8,12 +15,33 @@ import {
   hashSettings,
   type CacheEntry,
 } from './cache';
-import type { SectionData, PresetColors, PresetTypography } from '../db/schema';
+import type { SectionData, PresetColors, PresetTypography, PresetButtons } from '../db/schema';
+import type { RenderContext } from './mock-data';
+import type { MockSeed } from './random';
+import { generatePresetCSSVariables } from '../presets/css';
+import { getCustomPreset } from '../presets/custom';
+import { getProjectFixtures } from '../project/fixtures';
+import { getProjectMetaobjectDefinitions } from '../project/metaobjects';
+import { applyMockFixtures } from './fixtures';
+import { applyMockMetaobjects } from './metaobjects';
+import { applyPreviewScenarios } from './scenarios';
+import type { PresetStyle } from '../presets/css';
 
 export interface RenderOptions {
   sectionSlug: string;
   presetSlug?: string;
+  projectSlug?: string;
   customSettings?: Record<string, unknown>;
+  // Preview locale code (e.g. 'fr'); the theme's default locale when omitted
+  locale?: string;
+  // Preview currency code (e.g. 'EUR'), switching the shop's money formats
+  currency?: string;
+  // Mock data seed; the same seed always renders the same products, menus and text
+  seed?: MockSeed;
+  // Preview scenario names ('logged-in', 'full-cart', 'search'), combined in order
+  scenarios?: string[];
+  // Page shown by {% paginate %} tags (?page= on a live store); the first page when omitted
+  page?: number;
   locals: App.Locals;
   skipCache?: boolean;
 }
@@ -27,7 +55,7 @@ export interface RenderResult {
 }
 
 // Load section data from content collection
-async function loadSectionData(slug: string): Promise<SectionData | null> {
+export async function loadSectionData(slug: string): Promise<SectionData | null> {
   try {
     const sections = await getCollection('sections');
     const section = sections.find(s => s.data.slug === slug);
@@ -38,12 +66,21 @@ async function loadSectionData(slug: string): Promise<SectionData | null> {
   }
 }
 
-// Load preset data
-async function loadPresetData(slug: string): Promise<{
+// Load preset data. Custom presets live in D1 and use the "custom:" prefix,
+// like getAnyPreset, so they need locals to resolve.
+export async function loadPresetData(slug: string, locals?: App.Locals): Promise<{
   colors?: PresetColors;
   typography?: PresetTypography;
+  buttons?: PresetButtons;
 } | null> {
   try {
+    if (slug.startsWith('custom:')) {
+      if (!locals) return null;
+      const custom = await getCustomPreset(slug.replace('custom:', ''), locals);
+      if (!custom) return null;
+      return { colors: custom.colors, typography: custom.typography, buttons: custom.buttons };
+    }
+
     // Load from static presets
     const presets = import.meta.glob('/library/presets/*.json', { eager: true });
     const presetPath = `/library/presets/${slug}.json`;
@@ -53,9 +90,11 @@ async function loadPresetData(slug: string): Promise<{
         default?: {
           colors?: PresetColors;
           typography?: PresetTypography;
+          buttons?: PresetButtons;
         };
         colors?: PresetColors;
         typography?: PresetTypography;
+        buttons?: PresetButtons;
       };
       return preset.default || preset;
     }
@@ -68,7 +107,7 @@ async function loadPresetData(slug: string): Promise<{
 }
 
 // Load Liquid template for section
-async function loadSectionTemplate(slug: string): Promise<string | null> {
+export async function loadSectionTemplate(slug: string): Promise<string | null> {
   try {
     // Try to load from library/base-theme/sections/
     const templates = import.meta.glob('/library/base-theme/sections/*.liquid', {
@@ -90,8 +129,34 @@ async function loadSectionTemplate(slug: string): Promise<string | null> {
   }
 }
 
+// Resolve the engine for a render: project renders use the project's snippets and locales
+export async function loadRenderEngine(
+  projectSlug: string | undefined,
+  locals: App.Locals
+): Promise<{ engine: Liquid; engineHash?: string }> {
+  if (!projectSlug) {
+    return { engine: getLiquidEngine() };
+  }
+
+  const [snippets, locales, blocks] = await Promise.all([
+    loadProjectSnippets(projectSlug, locals),
+    loadProjectLocales(projectSlug, locals),
+    loadProjectThemeBlocks(projectSlug, locals),
+  ]);
+  return {
+    engine: createLiquidEngine({ snippets, locales, blocks }),
+    engineHash: hashSettings({ project: projectSlug, snippets, locales, blocks }),
+  };
+}
+
+// Global objects stay visible inside {% render %} snippets; section-scoped ones don't
+export function getRenderGlobals(context: RenderContext): Record<string, unknown> {
+  const { section, ...globals } = context;
+  return globals;
+}
+
 // Generate a basic template from section schema
-function generateTemplateFromSchema(section: SectionData): string {
+export function generateTemplateFromSchema(section: SectionData): string {
   const parts: string[] = [];
 
   // Opening section tag
@@ -173,8 +238,9 @@ function generateCollectionTemplate(section: SectionData): string {
       {% endif %}
 
       {% if collection %}
+        {% paginate collection.products by 8 %}
         <div class="collection-grid">
-          {% for product in collection.products limit: 8 %}
+          {% for product in collection.products %}
             <div class="product-card">
               <a href="{{ product.url }}">
                 {% if product.featured_image %}
@@ -188,6 +254,10 @@ function generateCollectionTemplate(section: SectionData): string {
             </div>
           {% endfor %}
         </div>
+        {% if paginate.pages > 1 %}
+          <nav class="pagination" aria-label="Pagination">{{ paginate | default_pagination }}</nav>
+        {% endif %}
+        {% endpaginate %}
       {% else %}
         <p class="collection-section__empty">No collection selected</p>
       {% endif %}
@@ -313,13 +383,30 @@ function generateGenericTemplate(section: SectionData): string {
   `;
 }
 
-// Generate basic CSS for preview
-function generatePreviewCSS(section: SectionData): string {
+// Generate preview CSS; colors, fonts and buttons come from the preset's CSS variables
+export function generatePreviewCSS(section: SectionData, preset?: PresetStyle | null): string {
   return `
+    /* Preset variables */
+    ${generatePresetCSSVariables(preset ?? {})}
+
     /* Preview styles for ${section.name} */
+    body {
+      background: var(--color-background);
+      color: var(--color-text);
+      font-family: var(--font-body);
+      font-weight: var(--font-body-weight);
+      font-style: var(--font-body-style);
+      font-size: calc(1rem * var(--font-body-scale));
+    }
+
+    h1, h2, h3, h4, h5, h6 {
+      font-family: var(--font-heading);
+      font-weight: var(--font-heading-weight);
+      font-style: var(--font-heading-style);
+    }
+
     .section {
       padding: 2rem 0;
-      font-family: system-ui, -apple-system, sans-serif;
     }
 
     .container {
@@ -332,37 +419,36 @@ function generatePreviewCSS(section: SectionData): string {
     .hero {
       text-align: center;
       padding: 4rem 2rem;
-      background: linear-gradient(135deg, #f0f4f8 0%, #e2e8f0 100%);
+      background: linear-gradient(135deg, var(--color-background-secondary) 0%, var(--color-border) 100%);
       border-radius: 0.5rem;
     }
 
     .hero__heading {
-      font-size: 2.5rem;
-      font-weight: 700;
+      font-size: calc(2.5rem * var(--font-heading-scale));
       margin-bottom: 1rem;
-      color: #1e293b;
+      color: var(--color-text);
     }
 
     .hero__subheading {
       font-size: 1.25rem;
-      color: #64748b;
+      color: var(--color-text-secondary);
       margin-bottom: 2rem;
     }
 
     /* Button styles */
     .button {
       display: inline-block;
-      padding: 0.75rem 1.5rem;
-      background: #2563eb;
-      color: white;
+      padding: var(--button-padding-vertical) var(--button-padding-horizontal);
+      background: var(--color-button-bg);
+      color: var(--color-button-text);
       text-decoration: none;
-      border-radius: 0.375rem;
+      border-radius: var(--button-radius);
       font-weight: 500;
       transition: background 0.2s;
     }
 
     .button:hover {
-      background: #1d4ed8;
+      background: color-mix(in srgb, var(--color-button-bg) 85%, black);
     }
 
     /* Collection grid */
@@ -374,7 +460,7 @@ function generatePreviewCSS(section: SectionData): string {
 
     /* Product card */
     .product-card {
-      border: 1px solid #e2e8f0;
+      border: 1px solid var(--color-border);
       border-radius: 0.5rem;
       overflow: hidden;
       transition: box-shadow 0.2s;
@@ -403,7 +489,7 @@ function generatePreviewCSS(section: SectionData): string {
 
     .product-card__price {
       padding: 0 0.75rem 0.75rem;
-      color: #64748b;
+      color: var(--color-text-secondary);
       margin: 0;
     }
 
@@ -427,7 +513,7 @@ function generatePreviewCSS(section: SectionData): string {
 
     .product-section__price {
       font-size: 1.5rem;
-      color: #2563eb;
+      color: var(--color-primary);
       margin-bottom: 1rem;
     }
 
@@ -437,12 +523,13 @@ function generatePreviewCSS(section: SectionData): string {
       align-items: center;
       justify-content: space-between;
       padding: 1rem 0;
-      border-bottom: 1px solid #e2e8f0;
+      border-bottom: 1px solid var(--color-border);
     }
 
     .header__logo-text {
+      font-family: var(--font-heading);
       font-size: 1.5rem;
-      font-weight: 700;
+      font-weight: var(--font-heading-weight);
     }
 
     .header__nav {
@@ -452,12 +539,12 @@ function generatePreviewCSS(section: SectionData): string {
 
     .header__nav-link {
       text-decoration: none;
-      color: #64748b;
+      color: var(--color-text-secondary);
     }
 
     .header__nav-link:hover,
     .header__nav-link--active {
-      color: #1e293b;
+      color: var(--color-text);
     }
 
     .header__actions {
@@ -467,12 +554,12 @@ function generatePreviewCSS(section: SectionData): string {
 
     .header__icon {
       text-decoration: none;
-      color: #64748b;
+      color: var(--color-text-secondary);
     }
 
     /* Footer */
     .footer {
-      background: #f8fafc;
+      background: var(--color-background-secondary);
       padding: 3rem 0 1.5rem;
       margin-top: 2rem;
     }
@@ -491,26 +578,26 @@ function generatePreviewCSS(section: SectionData): string {
     }
 
     .footer__menu a {
-      color: #64748b;
+      color: var(--color-text-secondary);
       text-decoration: none;
     }
 
     .footer__copyright {
       text-align: center;
-      color: #94a3b8;
+      color: var(--color-text-secondary);
       font-size: 0.875rem;
-      border-top: 1px solid #e2e8f0;
+      border-top: 1px solid var(--color-border);
       padding-top: 1.5rem;
     }
 
     /* Generic section */
     .generic-section__heading {
-      font-size: 1.75rem;
+      font-size: calc(1.75rem * var(--font-heading-scale));
       margin-bottom: 1rem;
     }
 
     .generic-section__content {
-      color: #64748b;
+      color: var(--color-text-secondary);
       margin-bottom: 1.5rem;
     }
 
@@ -520,18 +607,18 @@ function generatePreviewCSS(section: SectionData): string {
 
     /* Placeholder */
     .placeholder-image {
-      background: #e2e8f0;
+      background: var(--color-border);
       padding: 2rem;
       text-align: center;
-      color: #94a3b8;
+      color: var(--color-text-secondary);
       border-radius: 0.5rem;
     }
 
     .block-placeholder {
-      background: #f1f5f9;
+      background: var(--color-background-secondary);
       padding: 1rem;
       border-radius: 0.25rem;
-      color: #94a3b8;
+      color: var(--color-text-secondary);
       font-style: italic;
     }
 
@@ -545,13 +632,34 @@ function generatePreviewCSS(section: SectionData): string {
 
 // Main render function
 export async function renderSection(options: RenderOptions): Promise<RenderResult> {
-  const { sectionSlug, presetSlug, customSettings, locals, skipCache } = options;
+  const { sectionSlug, presetSlug, projectSlug, customSettings, locale, currency, seed, scenarios, page, locals, skipCache } = options;
   const startTime = performance.now();
   const errors: string[] = [];
 
-  // Generate cache key
+  // Resolve engine (project snippets and locales change the output, so they're part of the key)
+  const { engine, engineHash } = await loadRenderEngine(projectSlug, locals);
+
+  // Load preset if specified
+  const presetData = presetSlug ? await loadPresetData(presetSlug, locals) : undefined;
+
+  // Project fixtures replace the default mock catalog
+  const fixtures = projectSlug ? await getProjectFixtures(projectSlug, locals) : null;
+  const metaobjectDefinitions = projectSlug ? await getProjectMetaobjectDefinitions(projectSlug, locals) : [];
+
+  // Generate cache key (custom presets and fixtures can be edited, so their values are part of it)
   const settingsHash = customSettings ? hashSettings(customSettings) : undefined;
-  const cacheKey = generateCacheKey(sectionSlug, presetSlug, settingsHash);
+  const presetHash = presetSlug?.startsWith('custom:') && presetData ? hashSettings(presetData) : undefined;
+  const fixturesHash = fixtures ? hashSettings({ fixtures }) : undefined;
+  const seedKey = seed !== undefined ? `seed-${seed}` : undefined;
+  const scenarioKey = scenarios && scenarios.length > 0 ? scenarios.join(',') : undefined;
+  const pageKey = page && page > 1 ? `page-${page}` : undefined;
+  const metaobjectKey = metaobjectDefinitions.length > 0
+    ? `metaobjects-${metaobjectDefinitions.map(d => d.slug).join(',')}`
+    : undefined;
+  const contextHash = [engineHash, presetHash, fixturesHash, metaobjectKey, locale, currency, seedKey, scenarioKey, pageKey]
+    .filter(Boolean)
+    .join(':') || undefined;
+  const cacheKey = generateCacheKey(sectionSlug, presetSlug, settingsHash, contextHash);
 
   // Check cache first (unless skipped)
   if (!skipCache) {
@@ -579,9 +687,6 @@ export async function renderSection(options: RenderOptions): Promise<RenderResul
     };
   }
 
-  // Load preset if specified
-  const presetData = presetSlug ? await loadPresetData(presetSlug) : undefined;
-
   // Load or generate template
   let template = await loadSectionTemplate(sectionSlug);
   if (!template) {
@@ -589,19 +694,37 @@ export async function renderSection(options: RenderOptions): Promise<RenderResul
   }
 
   // Generate mock data
-  const context = generateMockDataFromSchema(sectionData, presetData ?? undefined);
+  const context = generateMockDataFromSchema(sectionData, presetData ?? undefined, { seed });
+  if (fixtures) {
+    applyMockFixtures(context, fixtures);
+  }
+  applyMockMetaobjects(context, metaobjectDefinitions, { seed });
+  if (scenarios) {
+    applyPreviewScenarios(context, scenarios);
+  }
 
   // Apply custom settings if provided
   if (customSettings) {
-    Object.assign(context.section.settings, customSettings);
+    resolveFontSettings(Object.assign(context.section.settings, customSettings));
+  }
+
+  if (locale) {
+    setRequestLocale(context, locale);
+  }
+
+  if (currency) {
+    setPreviewCurrency(context, currency);
+  }
+
+  if (page) {
+    setPreviewPage(context, page);
   }
 
   // Render template
-  const engine = getLiquidEngine();
   let html: string;
 
   try {
-    html = await engine.parseAndRender(template, context);
+    html = await engine.parseAndRender(template, context, { globals: getRenderGlobals(context) });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown render error';
     errors.push(message);
@@ -609,7 +732,7 @@ export async function renderSection(options: RenderOptions): Promise<RenderResul
   }
 
   // Generate CSS
-  const css = generatePreviewCSS(sectionData);
+  const css = generatePreviewCSS(sectionData, presetData);
 
   const renderTimeMs = Math.round(performance.now() - startTime);
 
@@ -632,7 +755,8 @@ export async function renderSection(options: RenderOptions): Promise<RenderResul
 export async function renderSectionsBatch(
   slugs: string[],
   presetSlug: string | undefined,
-  locals: App.Locals
+  locals: App.Locals,
+  projectSlug?: string
 ): Promise<Map<string, RenderResult>> {
   const results = new Map<string, RenderResult>();
 
@@ -644,6 +768,7 @@ export async function renderSectionsBatch(
       const result = await renderSection({
         sectionSlug: slug,
         presetSlug,
+        projectSlug,
         locals,
       });
       results.set(slug, result);
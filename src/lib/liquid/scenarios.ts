@@ -0,0 +1,173 @@
+import type { RenderContext, MockProductData } from './mock-data';
+import {
+  generateMockCart,
+  generateMockCartItem,
+  generateMockCollection,
+  generateMockCustomer,
+  generateMockProduct,
+} from './mock-generator';
+
+// Each scenario sets one aspect of the preview; scenarios from different groups combine
+export type ScenarioGroup = 'customer' | 'cart' | 'template' | 'device';
+
+export interface PreviewScenario {
+  name: string;
+  label: string;
+  group: ScenarioGroup;
+  description: string;
+  // Frame width for the preview; the caller's viewport when omitted
+  viewport?: 'mobile' | 'desktop';
+  apply(context: RenderContext): void;
+}
+
+// Products already in the context (fixtures or generated), so scenarios match the rest of the preview
+function getContextProducts(context: RenderContext): MockProductData[] {
+  const products = context.all_products ?? context.collection?.products ?? [];
+  return products.length > 0 ? products : Array.from({ length: 3 }, (_, i) => generateMockProduct(i));
+}
+
+function setTemplate(context: RenderContext, name: string, path: string): void {
+  context.template = { name, suffix: null };
+  context.request = { ...context.request, path, page_type: name };
+  context.canonical_url = `https://${context.request.host}${path}`;
+}
+
+export const PREVIEW_SCENARIOS: Record<string, PreviewScenario> = {
+  guest: {
+    name: 'guest',
+    label: 'Guest',
+    group: 'customer',
+    description: 'No customer is signed in',
+    apply: (context) => {
+      context.customer = null;
+    },
+  },
+  'logged-in': {
+    name: 'logged-in',
+    label: 'Logged-in customer',
+    group: 'customer',
+    description: 'A returning customer with orders and a default address',
+    apply: (context) => {
+      context.customer = generateMockCustomer();
+    },
+  },
+  'empty-cart': {
+    name: 'empty-cart',
+    label: 'Empty cart',
+    group: 'cart',
+    description: 'Cart with no items',
+    apply: (context) => {
+      context.cart = generateMockCart([], context.cart.currency.iso_code);
+    },
+  },
+  'full-cart': {
+    name: 'full-cart',
+    label: 'Full cart',
+    group: 'cart',
+    description: 'Cart with three lines, one of them with quantity 2',
+    apply: (context) => {
+      const items = getContextProducts(context)
+        .slice(0, 3)
+        .map((product, i) => generateMockCartItem(product, product.first_available_variant, i === 0 ? 2 : 1));
+      context.cart = generateMockCart(items, context.cart.currency.iso_code);
+    },
+  },
+  product: {
+    name: 'product',
+    label: 'Product page',
+    group: 'template',
+    description: 'Rendered on templates/product.json',
+    apply: (context) => {
+      context.product = context.product ?? getContextProducts(context)[0];
+      setTemplate(context, 'product', context.product.url);
+      context.page_title = context.product.title;
+    },
+  },
+  collection: {
+    name: 'collection',
+    label: 'Collection page',
+    group: 'template',
+    description: 'Rendered on templates/collection.json',
+    apply: (context) => {
+      context.collection = context.collection ?? generateMockCollection(0);
+      setTemplate(context, 'collection', context.collection.url);
+      context.page_title = context.collection.title;
+    },
+  },
+  search: {
+    name: 'search',
+    label: 'Search results',
+    group: 'template',
+    description: 'Rendered on templates/search.json after a search with results',
+    apply: (context) => {
+      const results = getContextProducts(context).slice(0, 4);
+      context.search = {
+        performed: true,
+        terms: 'shirt',
+        results,
+        results_count: results.length,
+        types: ['product'],
+        url: '/search?q=shirt',
+      };
+      setTemplate(context, 'search', '/search?q=shirt');
+      context.page_title = `Search: ${results.length} results found for "shirt"`;
+    },
+  },
+  mobile: {
+    name: 'mobile',
+    label: 'Mobile',
+    group: 'device',
+    description: 'Previewed in a 375px wide frame',
+    viewport: 'mobile',
+    apply: () => {
+      // Sections adapt to mobile through CSS, so only the frame width changes
+    },
+  },
+};
+
+// Every scenario on its own, the matrix rendered when none is requested
+export const DEFAULT_SCENARIO_MATRIX: string[][] = Object.keys(PREVIEW_SCENARIOS).map(name => [name]);
+
+// "logged-in,full-cart" -> ['logged-in', 'full-cart']
+export function parseScenarioNames(value: string | string[] | null | undefined): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap(v => v.split(','))
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+// Look up scenarios by name, rejecting unknown names and two scenarios for the same aspect
+export function resolveScenarios(names: string[]): PreviewScenario[] {
+  const scenarios: PreviewScenario[] = [];
+
+  for (const name of names) {
+    const scenario = Object.hasOwn(PREVIEW_SCENARIOS, name) ? PREVIEW_SCENARIOS[name] : undefined;
+    if (!scenario) {
+      throw new Error(`Unknown preview scenario "${name}" (available: ${Object.keys(PREVIEW_SCENARIOS).join(', ')})`);
+    }
+
+    const conflict = scenarios.find(s => s.group === scenario.group);
+    if (conflict) {
+      throw new Error(`Preview scenarios "${conflict.name}" and "${name}" both set the ${scenario.group}`);
+    }
+
+    scenarios.push(scenario);
+  }
+
+  return scenarios;
+}
+
+export function applyPreviewScenarios(context: RenderContext, names: string[]): void {
+  for (const scenario of resolveScenarios(names)) {
+    scenario.apply(context);
+  }
+}
+
+export function getScenarioViewport(names: string[]): 'mobile' | 'desktop' | undefined {
+  return resolveScenarios(names).find(s => s.viewport)?.viewport;
+}
+
+export function getScenarioLabel(names: string[]): string {
+  return names.length > 0 ? resolveScenarios(names).map(s => s.label).join(' + ') : 'Default';
+}
@@ -0,0 +1,30 @@
+import type { SectionData, SectionSetting, SectionBlock } from '../db/schema';
+
+// Extract the {% schema %} JSON from a section Liquid file
+export function extractSchemaFromLiquid(liquidContent: string): Record<string, unknown> | null {
+  const schemaMatch = liquidContent.match(/\{%-?\s*schema\s*-?%\}([\s\S]*?)\{%-?\s*endschema\s*-?%\}/);
+  if (!schemaMatch) return null;
+
+  try {
+    return JSON.parse(schemaMatch[1].trim());
+  } catch {
+    return null;
+  }
+}
+
+// Convert a Liquid {% schema %} object to the SectionData shape used by the library
+export function schemaToSectionData(
+  slug: string,
+  schema: Record<string, unknown>,
+  category: string = 'custom'
+): SectionData {
+  return {
+    name: (schema.name as string) || slug,
+    slug,
+    category,
+    settings: (schema.settings as SectionSetting[]) || [],
+    blocks: (schema.blocks as SectionBlock[]) || [],
+    maxBlocks: (schema.max_blocks as number) || 50,
+    presets: (schema.presets as unknown[]) || [],
+  };
+}
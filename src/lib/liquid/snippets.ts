@@ -0,0 +1,39 @@
+import { getProjectFilesByPrefix } from '../project/files';
+
+// Base theme snippets bundled at build time, used when a project doesn't provide its own
+const librarySnippetModules = import.meta.glob<string>('/library/base-theme/snippets/*.liquid', {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+// "snippets/price.liquid" or "/library/base-theme/snippets/price.liquid" -> "price"
+function snippetNameFromPath(path: string): string {
+  return path.replace(/^.*\/snippets\//, '').replace(/\.liquid$/, '');
+}
+
+// Get base theme snippets keyed by snippet name
+export function getLibrarySnippets(): Record<string, string> {
+  const snippets: Record<string, string> = {};
+  for (const [path, content] of Object.entries(librarySnippetModules)) {
+    snippets[snippetNameFromPath(path)] = content;
+  }
+  return snippets;
+}
+
+// Get the snippets a project renders with: its own snippets/*.liquid files,
+// falling back to the base theme for any snippet the project doesn't define
+export async function loadProjectSnippets(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<Record<string, string>> {
+  const snippets = getLibrarySnippets();
+
+  const files = await getProjectFilesByPrefix(projectSlug, 'snippets/', locals);
+  for (const file of files) {
+    if (!file.path.endsWith('.liquid')) continue;
+    snippets[snippetNameFromPath(file.path)] = file.content;
+  }
+
+  return snippets;
+}
@@ -0,0 +1,118 @@
+import type { BlockData, SectionSetting } from '../db/schema';
+import { getProjectFilesByPrefix } from '../project/files';
+
+// Library block definitions bundled at build time
+const libraryBlockModules = import.meta.glob<BlockData>('/library/blocks/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+const TEXT_SETTING_TYPES = ['text', 'inline_richtext', 'textarea'];
+const RICH_SETTING_TYPES = ['richtext', 'html', 'liquid'];
+
+// "image_alt", "alt_text" and "alt" describe an image rather than show up as text
+function isAltSetting(setting: SectionSetting): boolean {
+  return /(^|_)alt(_text)?$/.test(setting.id);
+}
+
+function generateSettingMarkup(setting: SectionSetting, altSetting?: SectionSetting): string | null {
+  const value = `block.settings.${setting.id}`;
+
+  if (setting.type === 'image_picker') {
+    const alt = altSetting ? `block.settings.${altSetting.id}` : `${value}.alt`;
+    return `{%- if ${value} != blank -%}
+    {{ ${value} | image_url: width: 1200 | image_tag: alt: ${alt}, loading: 'lazy' }}
+  {%- else -%}
+    {{ 'image' | placeholder_svg_tag: 'placeholder' }}
+  {%- endif -%}`;
+  }
+
+  if (TEXT_SETTING_TYPES.includes(setting.type) && !isAltSetting(setting)) {
+    return `{%- if ${value} != blank -%}
+    <p class="block__${setting.id}">{{ ${value} }}</p>
+  {%- endif -%}`;
+  }
+
+  if (RICH_SETTING_TYPES.includes(setting.type)) {
+    return `<div class="block__${setting.id} rte">{{ ${value} }}</div>`;
+  }
+
+  return null;
+}
+
+// Turn a library block into a Shopify theme block file (blocks/{slug}.liquid).
+// Select settings become modifier classes, the first URL setting links the block,
+// and blocks that accept children render them with {% content_for 'blocks' %}.
+export function generateThemeBlockLiquid(block: BlockData): string {
+  const settings = block.settings ?? [];
+  const altSetting = settings.find(s => TEXT_SETTING_TYPES.includes(s.type) && isAltSetting(s));
+  const linkSetting = settings.find(s => s.type === 'url');
+
+  const modifiers = settings
+    .filter(s => s.type === 'select' || s.type === 'radio')
+    .map(s => ` ${block.slug}--{{ block.settings.${s.id} }}`)
+    .join('');
+
+  const content = settings
+    .map(setting => generateSettingMarkup(setting, altSetting))
+    .filter((markup): markup is string => markup !== null);
+
+  if (block.blocks && block.blocks.length > 0) {
+    content.push(`{% content_for 'blocks' %}`);
+  }
+
+  if (linkSetting) {
+    const link = `block.settings.${linkSetting.id}`;
+    content.unshift(`{%- if ${link} != blank -%}<a href="{{ ${link} }}" class="block__link">{%- endif -%}`);
+    content.push(`{%- if ${link} != blank -%}</a>{%- endif -%}`);
+  }
+
+  const schema: Record<string, unknown> = {
+    name: block.name,
+    settings,
+  };
+  if (block.blocks && block.blocks.length > 0) {
+    schema.blocks = block.blocks;
+  }
+  schema.presets = [{ name: block.name }];
+
+  return `{%- comment -%}
+  ${block.name}
+  ${block.description || 'No description'}
+{%- endcomment -%}
+
+<div class="block block--${block.slug}${modifiers}" {{ block.shopify_attributes }}>
+  ${content.join('\n  ')}
+</div>
+
+{% schema %}
+${JSON.stringify(schema, null, 2)}
+{% endschema %}
+`;
+}
+
+// Library blocks as theme block sources keyed by block type
+export function getLibraryThemeBlocks(): Record<string, string> {
+  const blocks: Record<string, string> = {};
+  for (const block of Object.values(libraryBlockModules)) {
+    blocks[block.slug] = generateThemeBlockLiquid(block);
+  }
+  return blocks;
+}
+
+// Get the theme blocks a project renders with: its own blocks/*.liquid files,
+// falling back to the library for any block the project doesn't define
+export async function loadProjectThemeBlocks(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<Record<string, string>> {
+  const blocks = getLibraryThemeBlocks();
+
+  const files = await getProjectFilesByPrefix(projectSlug, 'blocks/', locals);
+  for (const file of files) {
+    if (!file.path.endsWith('.liquid')) continue;
+    blocks[file.path.replace(/^blocks\//, '').replace(/\.liquid$/, '')] = file.content;
+  }
+
+  return blocks;
+}
@@ -200,7 +200,8 @@ export async function applyPresetToProject(
     projectSlug,
     'config/settings_data.json',
     JSON.stringify(settingsData, null, 2),
-    locals
+    locals,
+    { reason: `apply preset ${presetSlug}` }
   );
 
   // Update project's applied_preset field
@@ -0,0 +1,139 @@
+import type { PresetColors } from '../db/schema';
+import {
+  parseColor,
+  rgbToHsl,
+  hslToRgb,
+  toHex,
+  getContrastRatio,
+  getReadableTextColor,
+} from '../liquid/color';
+import type { Color } from '../liquid/color';
+
+// WCAG 2 minimum ratios. Large text is 24px, or 18.66px bold, and up.
+export const WCAG_RATIOS = {
+  AA: 4.5,
+  AA_LARGE: 3,
+  AAA: 7,
+  AAA_LARGE: 4.5,
+} as const;
+
+export type ContrastLevel = 'AA' | 'AAA';
+
+interface ContrastPairDefinition {
+  name: string;
+  foreground: keyof PresetColors | 'button_text';
+  background: keyof PresetColors;
+  // Which color to change when the pair fails. Button text is always black or white,
+  // so button pairs suggest a new button color instead.
+  adjust: 'foreground' | 'background';
+}
+
+// Pairs of preset colors that themes put on top of each other
+const CONTRAST_PAIRS: ContrastPairDefinition[] = [
+  { name: 'Body text', foreground: 'text', background: 'background', adjust: 'foreground' },
+  { name: 'Body text on secondary background', foreground: 'text', background: 'background_secondary', adjust: 'foreground' },
+  { name: 'Secondary text', foreground: 'text_secondary', background: 'background', adjust: 'foreground' },
+  { name: 'Secondary text on secondary background', foreground: 'text_secondary', background: 'background_secondary', adjust: 'foreground' },
+  { name: 'Links', foreground: 'primary', background: 'background', adjust: 'foreground' },
+  { name: 'Primary button', foreground: 'button_text', background: 'primary', adjust: 'background' },
+  { name: 'Accent button', foreground: 'button_text', background: 'accent', adjust: 'background' },
+];
+
+export interface ContrastCheck {
+  name: string;
+  foreground: string;
+  background: string;
+  foregroundColor: string;
+  backgroundColor: string;
+  ratio: number;
+  aa: boolean;
+  aaLarge: boolean;
+  aaa: boolean;
+  aaaLarge: boolean;
+  // Nearest shade of the adjusted color that meets the requested level
+  suggestion?: { color: keyof PresetColors; value: string };
+}
+
+export interface ContrastReport {
+  level: ContrastLevel;
+  passes: boolean;
+  checks: ContrastCheck[];
+}
+
+function roundRatio(ratio: number): number {
+  return Math.floor(ratio * 100) / 100;
+}
+
+// The shade of a color closest in lightness that reaches the target ratio against another color,
+// or null when no shade of that hue can (mid grays can't reach 7:1 against anything)
+export function suggestContrastingColor(value: string, against: string, targetRatio: number): string | null {
+  const color = parseColor(value);
+  const other = parseColor(against);
+  if (!color || !other) return null;
+  if (getContrastRatio(color, other) >= targetRatio) return toHex(color);
+
+  const hsl = rgbToHsl(color);
+  let best: { color: Color; distance: number } | null = null;
+
+  for (const direction of [-1, 1]) {
+    for (let lightness = hsl.lightness; lightness >= 0 && lightness <= 100; lightness += direction * 0.5) {
+      const candidate: Color = { ...color, ...hslToRgb({ ...hsl, lightness }) };
+      if (getContrastRatio(candidate, other) >= targetRatio) {
+        const distance = Math.abs(lightness - hsl.lightness);
+        if (!best || distance < best.distance) best = { color: candidate, distance };
+        break;
+      }
+    }
+  }
+
+  return best ? toHex(best.color) : null;
+}
+
+// Contrast ratios for every pair of preset colors a theme layers, checked against WCAG AA or AAA.
+// Normal-size text must meet the level for the preset to pass.
+export function analyzePresetContrast(colors: PresetColors, level: ContrastLevel = 'AA'): ContrastReport {
+  const target = WCAG_RATIOS[level];
+
+  const checks = CONTRAST_PAIRS.flatMap((pair): ContrastCheck[] => {
+    const backgroundColor = colors[pair.background];
+    const foregroundColor = pair.foreground === 'button_text'
+      ? getReadableTextColor(backgroundColor)
+      : colors[pair.foreground];
+
+    const foreground = parseColor(foregroundColor);
+    const background = parseColor(backgroundColor);
+    if (!foreground || !background) return [];
+
+    const ratio = getContrastRatio(foreground, background);
+    const check: ContrastCheck = {
+      name: pair.name,
+      foreground: pair.foreground,
+      background: pair.background,
+      foregroundColor,
+      backgroundColor,
+      ratio: roundRatio(ratio),
+      aa: ratio >= WCAG_RATIOS.AA,
+      aaLarge: ratio >= WCAG_RATIOS.AA_LARGE,
+      aaa: ratio >= WCAG_RATIOS.AAA,
+      aaaLarge: ratio >= WCAG_RATIOS.AAA_LARGE,
+    };
+
+    if (ratio < target) {
+      const suggestion = pair.adjust === 'foreground'
+        ? suggestContrastingColor(foregroundColor, backgroundColor, target)
+        : suggestContrastingColor(backgroundColor, foregroundColor, target);
+      const color = pair.adjust === 'foreground' ? pair.foreground : pair.background;
+      if (suggestion && color !== 'button_text') {
+        check.suggestion = { color, value: suggestion };
+      }
+    }
+
+    return [check];
+  });
+
+  return {
+    level,
+    passes: checks.every(check => (level === 'AAA' ? check.aaa : check.aa)),
+    checks,
+  };
+}
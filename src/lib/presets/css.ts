@@ -0,0 +1,94 @@
+import type { PresetColors, PresetTypography, PresetButtons } from '../db/schema';
+import { getDefaultColors, getDefaultTypography, getDefaultButtons } from './custom';
+import { getReadableTextColor } from '../liquid/color';
+import { getFont } from '../liquid/fonts';
+
+export interface PresetStyle {
+  colors?: PresetColors;
+  typography?: PresetTypography;
+  buttons?: PresetButtons;
+}
+
+// Font settings are either Shopify handles (space_grotesk_n7) or plain family names (Inter)
+export function getFontFamily(font: string): string {
+  const catalogFont = getFont(font);
+  if (catalogFont) return catalogFont.family;
+
+  const match = font.match(/^([a-z0-9_]+)_[ni]\d$/);
+  if (!match) return font;
+  return match[1]
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export function getFontWeight(font: string, fallback: number): number {
+  const match = font.match(/_[ni](\d)$/);
+  return match ? parseInt(match[1], 10) * 100 : fallback;
+}
+
+export function getFontStyle(font: string): string {
+  return getFont(font)?.style ?? (/_i\d$/.test(font) ? 'italic' : 'normal');
+}
+
+// "Playfair Display", serif
+function getFontStack(font: string): string {
+  const fallback = getFont(font)?.fallback_families ?? 'sans-serif';
+  return `"${getFontFamily(font)}", ${fallback}`;
+}
+
+// Theme settings a preset doesn't carry, at the base theme's settings_schema.json defaults
+const THEME_SETTING_DEFAULTS = {
+  color_success: '#16a34a',
+  color_warning: '#f59e0b',
+  color_error: '#dc2626',
+  input_border_radius: 4,
+  card_border_radius: 8,
+};
+
+// CSS custom properties for a preset, named like snippets/css-variables.liquid, plus the
+// accent color and button padding the snippet leaves to sections.
+// Missing parts fall back to the default preset values.
+export function getPresetCSSVariables(preset: PresetStyle = {}): Record<string, string> {
+  const colors = preset.colors ?? getDefaultColors();
+  const typography = preset.typography ?? getDefaultTypography();
+  const buttons = preset.buttons ?? getDefaultButtons();
+
+  return {
+    '--color-primary': colors.primary,
+    '--color-secondary': colors.secondary,
+    '--color-accent': colors.accent,
+    '--color-background': colors.background,
+    '--color-background-secondary': colors.background_secondary,
+    '--color-text': colors.text,
+    '--color-text-secondary': colors.text_secondary,
+    '--color-border': `color-mix(in srgb, ${colors.text} 15%, ${colors.background})`,
+    '--color-success': THEME_SETTING_DEFAULTS.color_success,
+    '--color-warning': THEME_SETTING_DEFAULTS.color_warning,
+    '--color-error': THEME_SETTING_DEFAULTS.color_error,
+    '--color-button-bg': colors.primary,
+    '--color-button-text': getReadableTextColor(colors.primary),
+
+    '--font-heading': getFontStack(typography.heading_font),
+    '--font-heading-weight': String(getFontWeight(typography.heading_font, 700)),
+    '--font-heading-style': getFontStyle(typography.heading_font),
+    '--font-heading-scale': String(typography.heading_scale / 100),
+    '--font-body': getFontStack(typography.body_font),
+    '--font-body-weight': String(getFontWeight(typography.body_font, 400)),
+    '--font-body-style': getFontStyle(typography.body_font),
+    '--font-body-scale': String(typography.body_scale / 100),
+
+    '--button-radius': `${buttons.border_radius}px`,
+    '--input-radius': `${THEME_SETTING_DEFAULTS.input_border_radius}px`,
+    '--card-radius': `${THEME_SETTING_DEFAULTS.card_border_radius}px`,
+    '--button-padding-vertical': `${buttons.padding_vertical}px`,
+    '--button-padding-horizontal': `${buttons.padding_horizontal}px`,
+  };
+}
+
+export function generatePresetCSSVariables(preset: PresetStyle = {}, selector: string = ':root'): string {
+  const declarations = Object.entries(getPresetCSSVariables(preset))
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n');
+  return `${selector} {\n${declarations}\n}`;
+}
@@ -6,6 +6,9 @@ import type {
   PresetTypography,
   PresetButtons,
 } from '../db/schema';
+import { invalidatePresetCache } from '../liquid/cache';
+import { isColor } from '../liquid/color';
+import { isFontHandle } from '../liquid/fonts';
 
 export interface CreatePresetInput {
   name: string;
@@ -63,10 +66,21 @@ function getDefaultColors(): PresetColors {
   };
 }
 
+// Key of the first preset color the color filters can't parse, if any
+export function findInvalidPresetColor(colors: Partial<PresetColors>): string | undefined {
+  return Object.entries(colors).find(([, value]) => value !== undefined && !isColor(value))?.[0];
+}
+
+// Key of the first preset font that isn't a handle in the font catalog, if any
+export function findInvalidPresetFont(typography: Partial<PresetTypography>): string | undefined {
+  const fonts = { heading_font: typography.heading_font, body_font: typography.body_font };
+  return Object.entries(fonts).find(([, value]) => value !== undefined && !isFontHandle(value))?.[0];
+}
+
 function getDefaultTypography(): PresetTypography {
   return {
-    heading_font: 'Inter',
-    body_font: 'Inter',
+    heading_font: 'inter_n7',
+    body_font: 'inter_n4',
     heading_scale: 100,
     body_scale: 100,
   };
@@ -141,6 +155,12 @@ export async function createCustomPreset(
   };
 }
 
+// Previews may be cached under either "custom:<slug>" or "custom:<id>"
+async function invalidateCustomPresetCache(preset: CustomPresetData, locals: App.Locals): Promise<void> {
+  await invalidatePresetCache(`custom:${preset.slug}`, locals);
+  await invalidatePresetCache(`custom:${preset.id}`, locals);
+}
+
 // Get a custom preset by ID or slug
 export async function getCustomPreset(
   idOrSlug: string,
@@ -223,6 +243,8 @@ export async function updateCustomPreset(
     )
     .run();
 
+  await invalidateCustomPresetCache(existing, locals);
+
   return {
     ...existing,
     name: updates.name ?? existing.name,
@@ -258,6 +280,8 @@ export async function deleteCustomPreset(
     .bind(preset.id)
     .run();
 
+  await invalidateCustomPresetCache(preset, locals);
+
   return result.meta.changes > 0;
 }
 
@@ -0,0 +1,152 @@
+import type { PresetColors } from '../db/schema';
+import { parseColor, rgbToHsl, hslToRgb, toHex, getContrastRatio, getReadableTextColor } from '../liquid/color';
+import type { HslColor } from '../liquid/color';
+import { analyzePresetContrast, WCAG_RATIOS } from './contrast';
+import type { ContrastReport } from './contrast';
+
+export type PaletteStyle = 'light' | 'dark' | 'high-contrast';
+
+export const PALETTE_STYLES: PaletteStyle[] = ['light', 'dark', 'high-contrast'];
+
+export interface PaletteInput {
+  primary: string;
+  // Derived from the primary hue when omitted
+  secondary?: string;
+  style?: PaletteStyle;
+}
+
+export interface GeneratedPalette {
+  style: PaletteStyle;
+  colors: PresetColors;
+  // Whether the brand color had to be shifted to stay readable as links and buttons
+  primaryAdjusted: boolean;
+  contrast: ContrastReport;
+}
+
+export function isPaletteStyle(value: unknown): value is PaletteStyle {
+  return typeof value === 'string' && (PALETTE_STYLES as string[]).includes(value);
+}
+
+function hsl(hue: number, saturation: number, lightness: number): string {
+  return toHex({ ...hslToRgb({ hue, saturation, lightness }), alpha: 1, format: 'hex' });
+}
+
+// Neutrals tinted with the brand hue, so grays sit with the brand rather than against it
+function generateNeutrals(brand: HslColor, style: PaletteStyle): Pick<
+  PresetColors,
+  'background' | 'background_secondary' | 'text' | 'text_secondary'
+> {
+  const { hue } = brand;
+  const tint = Math.min(brand.saturation, 30);
+
+  switch (style) {
+    case 'dark':
+      return {
+        background: hsl(hue, tint * 0.6, 8),
+        background_secondary: hsl(hue, tint * 0.6, 13),
+        text: hsl(hue, tint * 0.4, 95),
+        text_secondary: hsl(hue, tint * 0.4, 72),
+      };
+    case 'high-contrast':
+      return {
+        background: '#ffffff',
+        background_secondary: hsl(hue, tint * 0.3, 96),
+        text: '#000000',
+        text_secondary: hsl(hue, tint * 0.4, 25),
+      };
+    default:
+      return {
+        background: '#ffffff',
+        background_secondary: hsl(hue, tint * 0.8, 97),
+        text: hsl(hue, tint * 0.8, 12),
+        text_secondary: hsl(hue, tint * 0.6, 40),
+      };
+  }
+}
+
+// A muted partner of the brand hue for secondary buttons and borders
+function generateSecondary(brand: HslColor, style: PaletteStyle): string {
+  return hsl(brand.hue, Math.min(brand.saturation, 20), style === 'dark' ? 65 : 45);
+}
+
+// The complement of the brand hue, kept vivid, for sale badges and highlights
+function generateAccent(brand: HslColor, style: PaletteStyle): string {
+  const saturation = Math.min(Math.max(brand.saturation, 60), 85);
+  return hsl((brand.hue + 180) % 360, saturation, style === 'dark' ? 60 : 50);
+}
+
+function contrast(first: string, second: string): number {
+  return getContrastRatio(parseColor(first)!, parseColor(second)!);
+}
+
+// The shade of a color closest in lightness that meets every requirement; the color itself when none does
+function findNearestShade(value: string, accepts: (shade: string) => boolean): string {
+  if (accepts(value)) return value;
+
+  const base = rgbToHsl(parseColor(value)!);
+  for (let step = 0.5; step <= 100; step += 0.5) {
+    for (const lightness of [base.lightness - step, base.lightness + step]) {
+      if (lightness < 0 || lightness > 100) continue;
+      const shade = hsl(base.hue, base.saturation, lightness);
+      if (accepts(shade)) return shade;
+    }
+  }
+  return value;
+}
+
+// Readable against every background
+function ensureContrast(value: string, backgrounds: string[], ratio: number): string {
+  return findNearestShade(value, shade => backgrounds.every(background => contrast(shade, background) >= ratio));
+}
+
+// Usable as a button: its own black or white text must be readable on it
+function ensureButtonContrast(value: string, backgrounds: string[], ratio: number): string {
+  return findNearestShade(value, shade =>
+    contrast(shade, getReadableTextColor(shade)) >= ratio
+    && backgrounds.every(background => contrast(shade, background) >= ratio)
+  );
+}
+
+// A complete preset palette from one or two brand colors. Text, links and buttons are
+// shifted where needed to meet WCAG AA (AAA for the high-contrast style).
+export function generatePalette(input: PaletteInput): GeneratedPalette {
+  const style = input.style ?? 'light';
+  const primaryColor = parseColor(input.primary);
+  if (!primaryColor) {
+    throw new Error(`Invalid primary color "${input.primary}"`);
+  }
+
+  const secondaryColor = input.secondary !== undefined ? parseColor(input.secondary) : null;
+  if (input.secondary !== undefined && !secondaryColor) {
+    throw new Error(`Invalid secondary color "${input.secondary}"`);
+  }
+
+  const brand = rgbToHsl(primaryColor);
+  const neutrals = generateNeutrals(brand, style);
+  const backgrounds = [neutrals.background, neutrals.background_secondary];
+  const level = style === 'high-contrast' ? 'AAA' : 'AA';
+  const ratio = WCAG_RATIOS[level];
+
+  const requested: PresetColors = {
+    primary: toHex(primaryColor),
+    secondary: secondaryColor ? toHex(secondaryColor) : generateSecondary(brand, style),
+    accent: generateAccent(brand, style),
+    ...neutrals,
+  };
+
+  const colors: PresetColors = {
+    ...requested,
+    text: ensureContrast(requested.text, backgrounds, ratio),
+    text_secondary: ensureContrast(requested.text_secondary, backgrounds, ratio),
+    // Primary is both link color and button background
+    primary: ensureButtonContrast(requested.primary, [neutrals.background], ratio),
+    accent: ensureButtonContrast(requested.accent, [], ratio),
+  };
+
+  return {
+    style,
+    colors,
+    primaryAdjusted: colors.primary !== requested.primary,
+    contrast: analyzePresetContrast(colors, level),
+  };
+}
@@ -0,0 +1,337 @@
+import type { PresetColors, PresetTypography, PresetButtons } from '../db/schema';
+import type { Preset } from './apply';
+import { getDefaultColors, getDefaultTypography, getDefaultButtons } from './custom';
+import { getFontFamily, getFontWeight } from './css';
+import { parseColor, formatColor } from '../liquid/color';
+import { getFont, listFontFamilies } from '../liquid/fonts';
+
+// W3C Design Tokens (DTCG) files use $value/$type; Tokens Studio (Figma Tokens) uses value/type
+export type TokenFormat = 'dtcg' | 'tokens-studio';
+
+export const TOKEN_FORMATS: TokenFormat[] = ['dtcg', 'tokens-studio'];
+
+export interface DesignToken {
+  // Dotted path from the file root, e.g. "color.brand.primary"
+  path: string;
+  type?: string;
+  value: unknown;
+  description?: string;
+}
+
+// Preset fields a token can be mapped onto
+export const PRESET_TOKEN_FIELDS = [
+  'colors.primary',
+  'colors.secondary',
+  'colors.accent',
+  'colors.background',
+  'colors.background_secondary',
+  'colors.text',
+  'colors.text_secondary',
+  'typography.heading_font',
+  'typography.heading_weight',
+  'typography.body_font',
+  'typography.body_weight',
+  'typography.heading_scale',
+  'typography.body_scale',
+  'buttons.border_radius',
+  'buttons.padding_vertical',
+  'buttons.padding_horizontal',
+] as const;
+
+export type PresetTokenField = typeof PRESET_TOKEN_FIELDS[number];
+
+// Preset field -> token path. Suggested from token names, then reviewed and edited before import.
+export type TokenMapping = Partial<Record<PresetTokenField, string>>;
+
+export interface TokenImportResult {
+  colors: PresetColors;
+  typography: PresetTypography;
+  buttons: PresetButtons;
+  warnings: string[];
+}
+
+type PresetTokenSource = Pick<Preset, 'colors' | 'typography' | 'buttons'> & { name?: string; description?: string };
+
+const REFERENCE_PATTERN = /^\{([^}]+)\}$/;
+const MAX_REFERENCE_DEPTH = 10;
+
+export function isTokenFormat(value: unknown): value is TokenFormat {
+  return typeof value === 'string' && (TOKEN_FORMATS as string[]).includes(value);
+}
+
+export function isPresetTokenField(value: unknown): value is PresetTokenField {
+  return typeof value === 'string' && (PRESET_TOKEN_FIELDS as readonly string[]).includes(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Collect every token in a DTCG or Tokens Studio file. Group-level $type applies to the tokens
+// inside it; $themes, $metadata and other $-prefixed keys are not tokens.
+export function parseDesignTokens(file: unknown): DesignToken[] {
+  const tokens: DesignToken[] = [];
+
+  const walk = (node: Record<string, unknown>, path: string[], inheritedType?: string) => {
+    const groupType = typeof node.$type === 'string' ? node.$type : inheritedType;
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$') || !isRecord(child)) continue;
+      const childPath = [...path, key];
+
+      if ('$value' in child || ('value' in child && !isRecord(child.value))) {
+        const type = child.$type ?? child.type ?? groupType;
+        const description = child.$description ?? child.description;
+        tokens.push({
+          path: childPath.join('.'),
+          type: typeof type === 'string' ? type : undefined,
+          value: '$value' in child ? child.$value : child.value,
+          description: typeof description === 'string' ? description : undefined,
+        });
+      } else {
+        walk(child, childPath, groupType);
+      }
+    }
+  };
+
+  if (isRecord(file)) walk(file, []);
+  return tokens;
+}
+
+// Follow "{color.brand.500}" references. Tokens Studio references leave out the token set,
+// so a reference also matches a token whose path ends with it.
+export function resolveTokenValue(tokens: DesignToken[], value: unknown, depth: number = 0): unknown {
+  if (typeof value !== 'string' || depth > MAX_REFERENCE_DEPTH) return value;
+
+  const match = value.trim().match(REFERENCE_PATTERN);
+  if (!match) return value;
+
+  const target = tokens.find(token => token.path === match[1])
+    ?? tokens.find(token => token.path.endsWith(`.${match[1]}`));
+  return target ? resolveTokenValue(tokens, target.value, depth + 1) : value;
+}
+
+// Words in a token path that point at a preset field, most specific first
+const FIELD_HINTS: { field: PresetTokenField; types: string[]; words: string[][] }[] = [
+  { field: 'colors.background_secondary', types: ['color'], words: [['background', 'secondary'], ['background', 'subtle'], ['background', 'alt'], ['surface']] },
+  { field: 'colors.text_secondary', types: ['color'], words: [['text', 'secondary'], ['text', 'muted'], ['text', 'subtle'], ['foreground', 'muted']] },
+  { field: 'colors.background', types: ['color'], words: [['background'], ['bg']] },
+  { field: 'colors.text', types: ['color'], words: [['text'], ['foreground'], ['fg']] },
+  { field: 'colors.primary', types: ['color'], words: [['primary'], ['brand']] },
+  { field: 'colors.secondary', types: ['color'], words: [['secondary']] },
+  { field: 'colors.accent', types: ['color'], words: [['accent'], ['highlight']] },
+  { field: 'typography.heading_font', types: ['fontFamily', 'fontFamilies'], words: [['heading'], ['display'], ['title']] },
+  { field: 'typography.body_font', types: ['fontFamily', 'fontFamilies'], words: [['body'], ['base'], ['text']] },
+  { field: 'typography.heading_weight', types: ['fontWeight', 'fontWeights'], words: [['heading'], ['display'], ['title']] },
+  { field: 'typography.body_weight', types: ['fontWeight', 'fontWeights'], words: [['body'], ['base'], ['text']] },
+  { field: 'typography.heading_scale', types: ['number'], words: [['heading', 'scale']] },
+  { field: 'typography.body_scale', types: ['number'], words: [['body', 'scale']] },
+  { field: 'buttons.border_radius', types: ['dimension', 'borderRadius'], words: [['button', 'radius'], ['radius']] },
+  { field: 'buttons.padding_vertical', types: ['dimension', 'spacing'], words: [['button', 'vertical'], ['button', 'padding', 'y'], ['button', 'py']] },
+  { field: 'buttons.padding_horizontal', types: ['dimension', 'spacing'], words: [['button', 'horizontal'], ['button', 'padding', 'x'], ['button', 'px']] },
+];
+
+function getPathWords(path: string): string[] {
+  return path.toLowerCase().split(/[.\-_\s]+/).filter(Boolean);
+}
+
+// Guess which token feeds each preset field from token types and names. Each token is used once,
+// so "background.secondary" isn't also picked for the main background.
+export function suggestTokenMapping(tokens: DesignToken[]): TokenMapping {
+  const mapping: TokenMapping = {};
+  const used = new Set<string>();
+
+  for (const hint of FIELD_HINTS) {
+    for (const words of hint.words) {
+      const token = tokens.find(candidate => {
+        if (used.has(candidate.path)) return false;
+        if (candidate.type && !hint.types.includes(candidate.type)) return false;
+        const pathWords = getPathWords(candidate.path);
+        return words.every(word => pathWords.includes(word));
+      });
+      if (token) {
+        mapping[hint.field] = token.path;
+        used.add(token.path);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+// "16px", "1rem", 16 or { value: 1, unit: 'rem' } in pixels
+function toPixels(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (isRecord(value) && typeof value.value === 'number') {
+    return value.unit === 'rem' || value.unit === 'em' ? value.value * 16 : value.value;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)?$/);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? number * 16 : number;
+}
+
+const NAMED_WEIGHTS: Record<string, number> = {
+  thin: 100, hairline: 100, extralight: 200, 'extra-light': 200, light: 300, regular: 400, normal: 400,
+  medium: 500, semibold: 600, 'semi-bold': 600, bold: 700, extrabold: 800, 'extra-bold': 800, black: 900, heavy: 900,
+};
+
+function toFontWeight(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return NAMED_WEIGHTS[normalized] ?? (/^\d{3}$/.test(normalized) ? parseInt(normalized, 10) : null);
+}
+
+// First family in a token font stack ("Inter, sans-serif" or ["Inter", "sans-serif"])
+function toFontFamily(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : typeof value === 'string' ? value.split(',')[0] : null;
+  return typeof first === 'string' ? first.trim().replace(/^["']|["']$/g, '') : null;
+}
+
+// A catalog handle for a family at the closest weight it has
+function toFontHandle(family: string, weight: number): string | null {
+  const definition = listFontFamilies().find(f => f.family.toLowerCase() === family.toLowerCase());
+  if (!definition) return null;
+
+  const weights = definition.variants.filter(v => v.startsWith('n')).map(v => parseInt(v.slice(1), 10) * 100);
+  const closest = weights.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best));
+  return `${definition.key}_n${closest / 100}`;
+}
+
+// Scales are percentages in presets; token files usually hold them as ratios (1.2)
+function toScale(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (!Number.isFinite(number)) return null;
+  return Math.round(number <= 10 ? number * 100 : number);
+}
+
+// Build preset colors, typography and buttons from tokens. Fields without a mapped token,
+// or whose token can't be converted, keep the base preset values and are listed in warnings.
+export function applyTokenMapping(
+  tokens: DesignToken[],
+  mapping: TokenMapping,
+  base: Partial<PresetTokenSource> = {}
+): TokenImportResult {
+  const warnings: string[] = [];
+  const colors: PresetColors = { ...getDefaultColors(), ...base.colors };
+  const typography: PresetTypography = { ...getDefaultTypography(), ...base.typography };
+  const buttons: PresetButtons = { ...getDefaultButtons(), ...base.buttons };
+
+  const read = (field: PresetTokenField): unknown => {
+    const path = mapping[field];
+    if (!path) return undefined;
+    const token = tokens.find(t => t.path === path);
+    if (!token) {
+      warnings.push(`${field}: token "${path}" not found`);
+      return undefined;
+    }
+    return resolveTokenValue(tokens, token.value);
+  };
+
+  for (const key of Object.keys(colors) as (keyof PresetColors)[]) {
+    const value = read(`colors.${key}`);
+    if (value === undefined) continue;
+    const color = parseColor(value);
+    if (color) {
+      colors[key] = formatColor(color);
+    } else {
+      warnings.push(`colors.${key}: "${String(value)}" is not a color`);
+    }
+  }
+
+  for (const [fontField, weightField, fallbackWeight] of [
+    ['heading_font', 'heading_weight', 700],
+    ['body_font', 'body_weight', 400],
+  ] as const) {
+    const familyValue = read(`typography.${fontField}`);
+    const weightValue = read(`typography.${weightField}`);
+    const weight = weightValue !== undefined ? toFontWeight(weightValue) : null;
+    if (weightValue !== undefined && weight === null) {
+      warnings.push(`typography.${weightField}: "${String(weightValue)}" is not a font weight`);
+    }
+    if (familyValue === undefined && weight === null) continue;
+
+    const family = familyValue !== undefined ? toFontFamily(familyValue) : getFontFamily(typography[fontField]);
+    const handle = family ? toFontHandle(family, weight ?? getFontWeight(typography[fontField], fallbackWeight)) : null;
+    if (handle) {
+      typography[fontField] = handle;
+    } else {
+      warnings.push(`typography.${fontField}: "${family}" is not in the Shopify font library`);
+    }
+  }
+
+  for (const key of ['heading_scale', 'body_scale'] as const) {
+    const value = read(`typography.${key}`);
+    if (value === undefined) continue;
+    const scale = toScale(value);
+    if (scale !== null) {
+      typography[key] = scale;
+    } else {
+      warnings.push(`typography.${key}: "${String(value)}" is not a number`);
+    }
+  }
+
+  for (const key of Object.keys(buttons) as (keyof PresetButtons)[]) {
+    const value = read(`buttons.${key}`);
+    if (value === undefined) continue;
+    const pixels = toPixels(value);
+    if (pixels !== null) {
+      buttons[key] = Math.round(pixels);
+    } else {
+      warnings.push(`buttons.${key}: "${String(value)}" is not a dimension`);
+    }
+  }
+
+  return { colors, typography, buttons, warnings };
+}
+
+function token(format: TokenFormat, type: string, value: unknown): Record<string, unknown> {
+  return format === 'dtcg' ? { $type: type, $value: value } : { type, value };
+}
+
+// A preset as a token file. Tokens Studio uses its own type names (fontFamilies, borderRadius, spacing).
+export function exportPresetTokens(preset: PresetTokenSource, format: TokenFormat = 'dtcg'): Record<string, unknown> {
+  const studio = format === 'tokens-studio';
+  const fontToken = (font: string, fallbackWeight: number) => {
+    const catalogFont = getFont(font);
+    const family = getFontFamily(font);
+    return {
+      family: token(format, studio ? 'fontFamilies' : 'fontFamily', studio ? family : [family, catalogFont?.fallback_families ?? 'sans-serif']),
+      weight: token(format, studio ? 'fontWeights' : 'fontWeight', getFontWeight(font, fallbackWeight)),
+    };
+  };
+
+  const tokens: Record<string, unknown> = {
+    color: Object.fromEntries(
+      Object.entries(preset.colors).map(([key, value]) => [key, token(format, 'color', value)])
+    ),
+    typography: {
+      heading: {
+        ...fontToken(preset.typography.heading_font, 700),
+        scale: token(format, 'number', preset.typography.heading_scale / 100),
+      },
+      body: {
+        ...fontToken(preset.typography.body_font, 400),
+        scale: token(format, 'number', preset.typography.body_scale / 100),
+      },
+    },
+    button: {
+      radius: token(format, studio ? 'borderRadius' : 'dimension', `${preset.buttons.border_radius}px`),
+      padding: {
+        vertical: token(format, studio ? 'spacing' : 'dimension', `${preset.buttons.padding_vertical}px`),
+        horizontal: token(format, studio ? 'spacing' : 'dimension', `${preset.buttons.padding_horizontal}px`),
+      },
+    },
+  };
+
+  if (preset.description) {
+    tokens[studio ? 'description' : '$description'] = preset.description;
+  }
+
+  return tokens;
+}
+
@@ -1,5 +1,8 @@
 import { getDB, now } from '../db';
 import { getCollection } from 'astro:content';
+import type { BlockData } from '../db/schema';
+import { generateThemeBlockLiquid } from '../liquid/theme-blocks';
+import { prepareFileRevision } from './revisions';
 
 export async function addBlockToProject(
   projectSlug: string,
@@ -45,18 +48,45 @@ export async function addBlockToProject(
   const position = (lastPosition?.maxPos ?? -1) + 1;
   const timestamp = now();
 
-  // Insert block reference
-  await db
-    .prepare(`
+  const filePath = `blocks/${blockSlug}.liquid`;
+
+  // A project that already has its own version of the block keeps it
+  const existingFile = await db
+    .prepare('SELECT id FROM project_files WHERE project_id = ? AND file_path = ?')
+    .bind(project.id, filePath)
+    .first();
+
+  const statements = [
+    db.prepare(`
       INSERT INTO project_blocks (project_id, block_slug, position, added_at)
       VALUES (?, ?, ?, ?)
-    `)
-    .bind(project.id, blockSlug, position, timestamp)
-    .run();
-
-  // Update project timestamp
-  await db
-    .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
-    .bind(timestamp, project.id)
-    .run();
+    `).bind(project.id, blockSlug, position, timestamp),
+
+    db.prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
+      .bind(timestamp, project.id),
+  ];
+
+  if (!existingFile) {
+    const liquidContent = generateThemeBlockLiquid(block.data as unknown as BlockData);
+
+    const revision = await prepareFileRevision(
+      project.id,
+      filePath,
+      liquidContent,
+      'text/liquid',
+      { reason: `add block ${blockSlug}` },
+      locals
+    );
+
+    statements.push(
+      ...revision,
+      db.prepare(`
+        INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
+        VALUES (?, ?, ?, 'text/liquid', ?, ?)
+      `).bind(project.id, filePath, liquidContent, timestamp, timestamp)
+    );
+  }
+
+  // Insert block reference, theme block file and its revision in a batch
+  await db.batch(statements);
 }
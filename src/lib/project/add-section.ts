@@ -1,6 +1,8 @@
 import { getDB, now } from '../db';
 import type { SectionData, SectionBlock } from '../db/schema';
 import { getCollection } from 'astro:content';
+import { getDefaultSectionGroup, writeSectionGroupFiles } from './section-groups';
+import { prepareFileRevision } from './revisions';
 
 export type { SectionData };
 
@@ -95,12 +97,25 @@ export async function addSectionToProject(
 
   const position = (maxPos?.max ?? -1) + 1;
 
-  // Insert section reference and file in a batch
+  // Header and footer sections go into the layout's section groups
+  const sectionGroup = getDefaultSectionGroup(sectionData.category);
+
+  const revision = await prepareFileRevision(
+    project.id,
+    `sections/${sectionSlug}.liquid`,
+    liquidContent,
+    'text/liquid',
+    { reason: `add section ${sectionSlug}` },
+    locals
+  );
+
+  // Insert section reference, file and its revision in a batch
   await db.batch([
+    ...revision,
     db.prepare(`
-      INSERT INTO project_sections (project_id, section_slug, position, added_at)
-      VALUES (?, ?, ?, ?)
-    `).bind(project.id, sectionSlug, position, timestamp),
+      INSERT INTO project_sections (project_id, section_slug, position, section_group, added_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(project.id, sectionSlug, position, sectionGroup, timestamp),
 
     db.prepare(`
       INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
@@ -111,6 +126,10 @@ export async function addSectionToProject(
       .bind(timestamp, project.id),
   ]);
 
+  if (sectionGroup) {
+    await writeSectionGroupFiles(projectSlug, locals);
+  }
+
   return true;
 }
 
@@ -132,7 +151,22 @@ export async function removeSectionFromProject(
 
   const timestamp = now();
 
+  const grouped = await db
+    .prepare('SELECT section_group FROM project_sections WHERE project_id = ? AND section_slug = ?')
+    .bind(project.id, sectionSlug)
+    .first<{ section_group: string | null }>();
+
+  const revision = await prepareFileRevision(
+    project.id,
+    `sections/${sectionSlug}.liquid`,
+    null,
+    'text/liquid',
+    { reason: `remove section ${sectionSlug}` },
+    locals
+  );
+
   await db.batch([
+    ...revision,
     db.prepare('DELETE FROM project_sections WHERE project_id = ? AND section_slug = ?')
       .bind(project.id, sectionSlug),
     db.prepare('DELETE FROM project_files WHERE project_id = ? AND file_path = ?')
@@ -141,6 +175,10 @@ export async function removeSectionFromProject(
       .bind(timestamp, project.id),
   ]);
 
+  if (grouped?.section_group) {
+    await writeSectionGroupFiles(projectSlug, locals);
+  }
+
   return true;
 }
 
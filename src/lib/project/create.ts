@@ -1,6 +1,7 @@
 import { getDB, generateId, now } from '../db';
 import type { ProjectData, ProjectRow } from '../db/schema';
 import { getBaseThemeFiles } from './files';
+import { writeSectionGroupFiles } from './section-groups';
 
 export interface CreateProjectInput {
   name: string;
@@ -10,7 +11,7 @@ export interface CreateProjectInput {
 
 export type { ProjectData };
 
-function slugify(text: string): string {
+export function slugify(text: string): string {
   return text
     .toLowerCase()
     .trim()
@@ -66,6 +67,7 @@ export async function createProject(
     description,
     status: 'draft',
     baseTheme: 'base',
+    isTemplate: false,
     createdAt: timestamp,
     updatedAt: timestamp,
     sections: [],
@@ -94,6 +96,11 @@ export async function listProjects(locals: App.Locals): Promise<ProjectData[]> {
       .bind(p.id)
       .all<{ block_slug: string }>();
 
+    const metaobjects = await db
+      .prepare('SELECT metaobject_slug FROM project_metaobjects WHERE project_id = ? ORDER BY position')
+      .bind(p.id)
+      .all<{ metaobject_slug: string }>();
+
     results.push({
       name: p.name,
       slug: p.slug,
@@ -102,11 +109,12 @@ export async function listProjects(locals: App.Locals): Promise<ProjectData[]> {
       status: p.status,
       baseTheme: p.base_theme,
       appliedPreset: p.applied_preset || undefined,
+      isTemplate: Boolean(p.is_template),
       createdAt: p.created_at,
       updatedAt: p.updated_at,
       sections: sections.results.map(s => s.section_slug),
       blocks: blocks.results.map(b => b.block_slug),
-      metaobjects: [],
+      metaobjects: metaobjects.results.map(m => m.metaobject_slug),
     });
   }
 
@@ -133,6 +141,11 @@ export async function getProject(slug: string, locals: App.Locals): Promise<Proj
     .bind(project.id)
     .all<{ block_slug: string }>();
 
+  const metaobjects = await db
+    .prepare('SELECT metaobject_slug FROM project_metaobjects WHERE project_id = ? ORDER BY position')
+    .bind(project.id)
+    .all<{ metaobject_slug: string }>();
+
   return {
     name: project.name,
     slug: project.slug,
@@ -141,11 +154,12 @@ export async function getProject(slug: string, locals: App.Locals): Promise<Proj
     status: project.status,
     baseTheme: project.base_theme,
     appliedPreset: project.applied_preset || undefined,
+    isTemplate: Boolean(project.is_template),
     createdAt: project.created_at,
     updatedAt: project.updated_at,
     sections: sections.results.map(s => s.section_slug),
     blocks: blocks.results.map(b => b.block_slug),
-    metaobjects: [],
+    metaobjects: metaobjects.results.map(m => m.metaobject_slug),
   };
 }
 
@@ -153,6 +167,7 @@ export interface ProjectSectionWithId {
   id: number;
   sectionSlug: string;
   position: number;
+  sectionGroup: string | null;
 }
 
 export async function getProjectSections(slug: string, locals: App.Locals): Promise<ProjectSectionWithId[]> {
@@ -166,14 +181,15 @@ export async function getProjectSections(slug: string, locals: App.Locals): Prom
   if (!project) return [];
 
   const sections = await db
-    .prepare('SELECT id, section_slug, position FROM project_sections WHERE project_id = ? ORDER BY position')
+    .prepare('SELECT id, section_slug, position, section_group FROM project_sections WHERE project_id = ? ORDER BY position')
     .bind(project.id)
-    .all<{ id: number; section_slug: string; position: number }>();
+    .all<{ id: number; section_slug: string; position: number; section_group: string | null }>();
 
   return sections.results.map(s => ({
     id: s.id,
     sectionSlug: s.section_slug,
     position: s.position,
+    sectionGroup: s.section_group,
   }));
 }
 
@@ -205,6 +221,9 @@ export async function reorderProjectSections(
     .bind(now(), project.id)
     .run();
 
+  // Group order follows section positions
+  await writeSectionGroupFiles(slug, locals);
+
   return true;
 }
 
@@ -247,6 +266,8 @@ export async function removeProjectSection(
       .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
       .bind(now(), project.id)
       .run();
+
+    await writeSectionGroupFiles(slug, locals);
   }
 
   return result.meta.changes > 0;
@@ -265,14 +286,14 @@ export async function deleteProject(slug: string, locals: App.Locals): Promise<b
 
 export async function updateProject(
   slug: string,
-  updates: Partial<Pick<ProjectData, 'name' | 'description' | 'storeUrl' | 'status'>>,
+  updates: Partial<Pick<ProjectData, 'name' | 'description' | 'storeUrl' | 'status' | 'isTemplate'>>,
   locals: App.Locals
 ): Promise<ProjectData | null> {
   const db = getDB(locals);
   const timestamp = now();
 
   const setClauses: string[] = ['updated_at = ?'];
-  const values: (string | null)[] = [timestamp];
+  const values: (string | number | null)[] = [timestamp];
 
   if (updates.name !== undefined) {
     setClauses.push('name = ?');
@@ -290,6 +311,10 @@ export async function updateProject(
     setClauses.push('status = ?');
     values.push(updates.status);
   }
+  if (updates.isTemplate !== undefined) {
+    setClauses.push('is_template = ?');
+    values.push(updates.isTemplate ? 1 : 0);
+  }
 
   values.push(slug);
 
@@ -0,0 +1,127 @@
+import { getDB, generateId, now } from '../db';
+import type { ProjectRow } from '../db/schema';
+import { getProject, slugify } from './create';
+import type { CreateProjectInput, ProjectData } from './create';
+
+export interface ProjectTemplate {
+  slug: string;
+  name: string;
+  description?: string;
+  appliedPreset?: string;
+  sectionCount: number;
+}
+
+// Copy a project with its sections, blocks, metaobjects, preset links, fixtures and files under a new slug.
+// File revision history stays with the source project.
+export async function duplicateProject(
+  sourceSlug: string,
+  input: CreateProjectInput,
+  locals: App.Locals
+): Promise<ProjectData> {
+  const db = getDB(locals);
+  const { name, storeUrl, description } = input;
+  const slug = slugify(name);
+  const timestamp = now();
+  const id = generateId();
+
+  const source = await db
+    .prepare('SELECT * FROM projects WHERE slug = ?')
+    .bind(sourceSlug)
+    .first<ProjectRow>();
+
+  if (!source) {
+    throw new Error(`Project "${sourceSlug}" not found`);
+  }
+
+  const existing = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(slug)
+    .first();
+
+  if (existing) {
+    throw new Error(`Project with slug "${slug}" already exists`);
+  }
+
+  await db.batch([
+    db.prepare(`
+      INSERT INTO projects (id, slug, name, store_url, description, status, base_theme, applied_preset, is_template, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'draft', ?, ?, 0, ?, ?)
+    `).bind(
+      id,
+      slug,
+      name,
+      storeUrl ?? source.store_url,
+      description ?? source.description,
+      source.base_theme,
+      source.applied_preset,
+      timestamp,
+      timestamp
+    ),
+
+    db.prepare(`
+      INSERT INTO project_sections (project_id, section_slug, position, settings, custom_schema, section_group, added_at)
+      SELECT ?, section_slug, position, settings, custom_schema, section_group, ?
+      FROM project_sections WHERE project_id = ?
+    `).bind(id, timestamp, source.id),
+
+    db.prepare(`
+      INSERT INTO project_blocks (project_id, block_slug, position, added_at)
+      SELECT ?, block_slug, position, ?
+      FROM project_blocks WHERE project_id = ?
+    `).bind(id, timestamp, source.id),
+
+    db.prepare(`
+      INSERT INTO project_metaobjects (project_id, metaobject_slug, position, added_at)
+      SELECT ?, metaobject_slug, position, ?
+      FROM project_metaobjects WHERE project_id = ?
+    `).bind(id, timestamp, source.id),
+
+    db.prepare(`
+      INSERT INTO project_presets (project_id, preset_id, is_active, applied_at)
+      SELECT ?, preset_id, is_active, applied_at
+      FROM project_presets WHERE project_id = ?
+    `).bind(id, source.id),
+
+    db.prepare(`
+      INSERT INTO project_fixtures (project_id, data, created_at, updated_at)
+      SELECT ?, data, ?, ?
+      FROM project_fixtures WHERE project_id = ?
+    `).bind(id, timestamp, timestamp, source.id),
+
+    db.prepare(`
+      INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
+      SELECT ?, file_path, content, content_type, ?, ?
+      FROM project_files WHERE project_id = ?
+    `).bind(id, timestamp, timestamp, source.id),
+  ]);
+
+  const project = await getProject(slug, locals);
+  if (!project) {
+    throw new Error(`Failed to duplicate project "${sourceSlug}"`);
+  }
+
+  return project;
+}
+
+// Projects marked as starter templates, for the new-project wizard
+export async function listProjectTemplates(locals: App.Locals): Promise<ProjectTemplate[]> {
+  const db = getDB(locals);
+
+  const templates = await db
+    .prepare(`
+      SELECT p.slug, p.name, p.description, p.applied_preset,
+        (SELECT COUNT(*) FROM project_sections s WHERE s.project_id = p.id) as section_count
+      FROM projects p
+      WHERE p.is_template = 1
+      ORDER BY p.name
+    `)
+    .all<{ slug: string; name: string; description: string | null; applied_preset: string | null; section_count: number }>();
+
+  return templates.results.map(t => ({
+    slug: t.slug,
+    name: t.name,
+    description: t.description || undefined,
+    appliedPreset: t.applied_preset || undefined,
+    sectionCount: t.section_count,
+  }));
+}
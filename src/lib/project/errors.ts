@@ -0,0 +1,14 @@
+// A failure caused by the request rather than the server; routes answer with its status
+export class ProjectRequestError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(message: string, status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'ProjectRequestError';
+    this.status = status;
+  }
+}
+
+export function getErrorStatus(error: unknown): number {
+  return error instanceof ProjectRequestError ? error.status : 500;
+}
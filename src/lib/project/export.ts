@@ -1,5 +1,15 @@
 import { getDB } from '../db';
 import { zipSync } from 'fflate';
+import {
+  SECTION_GROUPS,
+  generateSectionGroupFile,
+  getProjectSectionGroups,
+  getSectionGroupPath,
+} from './section-groups';
+import type { SectionGroupName } from './section-groups';
+import { getBaseThemeFiles } from './files';
+import { parseLocalePath } from '../liquid/locales';
+import { getLibraryThemeBlocks } from '../liquid/theme-blocks';
 
 interface FileEntry {
   path: string;
@@ -54,6 +64,50 @@ export async function exportProjectToZip(
     content: f.content,
   }));
 
+  // Projects created before section groups existed have no group files yet
+  const groups = await getProjectSectionGroups(projectSlug, locals);
+  for (const group of Object.keys(SECTION_GROUPS) as SectionGroupName[]) {
+    const path = getSectionGroupPath(group);
+    if (groups && !fileEntries.some(f => f.path === path)) {
+      fileEntries.push({
+        path,
+        content: JSON.stringify(generateSectionGroupFile(group, groups[group]), null, 2),
+      });
+    }
+  }
+
+  // Blocks added before they were written as theme block files are generated from the library
+  const blocks = await db
+    .prepare('SELECT block_slug FROM project_blocks WHERE project_id = ?')
+    .bind(project.id)
+    .all<{ block_slug: string }>();
+  const libraryBlocks = getLibraryThemeBlocks();
+  for (const { block_slug } of blocks.results) {
+    const path = `blocks/${block_slug}.liquid`;
+    if (libraryBlocks[block_slug] && !fileEntries.some(f => f.path === path)) {
+      fileEntries.push({ path, content: libraryBlocks[block_slug] });
+    }
+  }
+
+  // Shopify rejects themes without a default locale; every other locale file is exported as stored
+  const hasDefaultLocale = fileEntries.some(f => {
+    const locale = parseLocalePath(f.path);
+    return locale?.isDefault && !locale.isSchema;
+  });
+  if (!hasDefaultLocale) {
+    // A stored locales/en.json becomes the default rather than sitting beside the base theme's copy
+    const englishLocale = fileEntries.find(f => {
+      const locale = parseLocalePath(f.path);
+      return locale?.code === 'en' && !locale.isSchema;
+    });
+    const baseLocale = getBaseThemeFiles().find(f => f.path === 'locales/en.default.json');
+    if (englishLocale) {
+      englishLocale.path = 'locales/en.default.json';
+    } else if (baseLocale) {
+      fileEntries.push({ path: baseLocale.path, content: baseLocale.content });
+    }
+  }
+
   // Create ZIP
   return createZip(fileEntries);
 }
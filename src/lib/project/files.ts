@@ -1,4 +1,6 @@
 import { getDB, now } from '../db';
+import { prepareFileRevision } from './revisions';
+import type { FileRevisionOptions } from './revisions';
 
 interface BaseThemeFile {
   path: string;
@@ -117,7 +119,7 @@ export function getBaseThemeFiles(): BaseThemeFile[] {
 
 body {
   margin: 0;
-  font-family: var(--font-body-family, system-ui, sans-serif);
+  font-family: var(--font-body, system-ui, sans-serif);
   color: var(--color-text);
   background-color: var(--color-background);
 }
@@ -207,6 +209,26 @@ document.documentElement.classList.add('js');`,
       }, null, 2),
       contentType: 'application/json',
     },
+    {
+      path: 'sections/header-group.json',
+      content: JSON.stringify({
+        type: "header",
+        name: "Header group",
+        sections: {},
+        order: []
+      }, null, 2),
+      contentType: 'application/json',
+    },
+    {
+      path: 'sections/footer-group.json',
+      content: JSON.stringify({
+        type: "footer",
+        name: "Footer group",
+        sections: {},
+        order: []
+      }, null, 2),
+      contentType: 'application/json',
+    },
     {
       path: 'locales/en.default.json',
       content: JSON.stringify({
@@ -248,7 +270,8 @@ export async function updateProjectFile(
   projectSlug: string,
   filePath: string,
   content: string,
-  locals: App.Locals
+  locals: App.Locals,
+  revision: FileRevisionOptions = {}
 ): Promise<boolean> {
   const db = getDB(locals);
 
@@ -261,14 +284,60 @@ export async function updateProjectFile(
     throw new Error(`Project "${projectSlug}" not found`);
   }
 
+  const existing = await db
+    .prepare('SELECT content_type FROM project_files WHERE project_id = ? AND file_path = ?')
+    .bind(project.id, filePath)
+    .first<{ content_type: string }>();
+
+  if (!existing) return false;
+
+  const revisionStatements = await prepareFileRevision(
+    project.id, filePath, content, existing.content_type, revision, locals
+  );
+
   const timestamp = now();
 
-  const result = await db
-    .prepare('UPDATE project_files SET content = ?, updated_at = ? WHERE project_id = ? AND file_path = ?')
-    .bind(content, timestamp, project.id, filePath)
-    .run();
+  const results = await db.batch([
+    ...revisionStatements,
+    db.prepare('UPDATE project_files SET content = ?, updated_at = ? WHERE project_id = ? AND file_path = ?')
+      .bind(content, timestamp, project.id, filePath),
+  ]);
 
-  return result.meta.changes > 0;
+  return results[results.length - 1].meta.changes > 0;
+}
+
+// Create a project file, or replace its content if it already exists
+export async function saveProjectFile(
+  projectSlug: string,
+  filePath: string,
+  content: string,
+  contentType: string,
+  locals: App.Locals,
+  revision: FileRevisionOptions = {}
+): Promise<void> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  const revisionStatements = await prepareFileRevision(project.id, filePath, content, contentType, revision, locals);
+
+  const timestamp = now();
+
+  await db.batch([
+    ...revisionStatements,
+    db.prepare(`
+      INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(project_id, file_path) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+    `).bind(project.id, filePath, content, contentType, timestamp, timestamp),
+  ]);
 }
 
 export async function listProjectFiles(projectSlug: string, locals: App.Locals): Promise<string[]> {
@@ -288,3 +357,25 @@ export async function listProjectFiles(projectSlug: string, locals: App.Locals):
 
   return files.results.map(f => f.file_path);
 }
+
+export async function getProjectFilesByPrefix(
+  projectSlug: string,
+  prefix: string,
+  locals: App.Locals
+): Promise<{ path: string; content: string }[]> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) return [];
+
+  const files = await db
+    .prepare('SELECT file_path, content FROM project_files WHERE project_id = ? AND file_path LIKE ? ORDER BY file_path')
+    .bind(project.id, `${prefix}%`)
+    .all<{ file_path: string; content: string }>();
+
+  return files.results.map(f => ({ path: f.file_path, content: f.content }));
+}
@@ -0,0 +1,244 @@
+import { getDB, now, parseJSON, toJSON } from '../db';
+import type { ProjectFixturesRow } from '../db/schema';
+import { validateFixtures } from '../liquid/fixtures';
+import type { FixtureProduct, FixtureVariant, MockFixtures } from '../liquid/fixtures';
+
+export interface ProductCSVImportResult {
+  fixtures: MockFixtures;
+  imported: number;
+  // Rows that couldn't be attached to a product, as readable messages
+  warnings: string[];
+}
+
+async function getProjectId(projectSlug: string, locals: App.Locals): Promise<string> {
+  const project = await getDB(locals)
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  return project.id;
+}
+
+// The project's fixtures, or null when it previews with the default mock data
+export async function getProjectFixtures(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<MockFixtures | null> {
+  const row = await getDB(locals)
+    .prepare(`
+      SELECT f.* FROM project_fixtures f
+      JOIN projects p ON p.id = f.project_id
+      WHERE p.slug = ?
+    `)
+    .bind(projectSlug)
+    .first<ProjectFixturesRow>();
+
+  return row ? parseJSON<MockFixtures>(row.data) : null;
+}
+
+export async function saveProjectFixtures(
+  projectSlug: string,
+  fixtures: MockFixtures,
+  locals: App.Locals
+): Promise<MockFixtures> {
+  const errors = validateFixtures(fixtures);
+  if (errors.length > 0) {
+    throw new Error(`Invalid fixtures: ${errors.join('; ')}`);
+  }
+
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+  const timestamp = now();
+
+  await db.batch([
+    db.prepare(`
+      INSERT INTO project_fixtures (project_id, data, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(project_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).bind(projectId, toJSON(fixtures), timestamp, timestamp),
+    db.prepare('UPDATE projects SET updated_at = ? WHERE id = ?').bind(timestamp, projectId),
+  ]);
+
+  return fixtures;
+}
+
+// Go back to the default mock data
+export async function deleteProjectFixtures(projectSlug: string, locals: App.Locals): Promise<boolean> {
+  const projectId = await getProjectId(projectSlug, locals);
+  const result = await getDB(locals)
+    .prepare('DELETE FROM project_fixtures WHERE project_id = ?')
+    .bind(projectId)
+    .run();
+
+  return (result.meta.changes ?? 0) > 0;
+}
+
+// RFC 4180 rows: quoted fields may contain commas, quotes ("") and newlines
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// "29.99" -> 2999
+function toCents(value: string): number | null {
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
+
+// Parse a product CSV exported from Shopify admin. Each product spans several rows:
+// the first carries the product fields, the rest add variants and images.
+export function parseShopifyProductCSV(csv: string): { products: FixtureProduct[]; warnings: string[] } {
+  const [header, ...rows] = parseCSV(csv.replace(/^\uFEFF/, ''));
+  if (!header) return { products: [], warnings: ['CSV is empty'] };
+
+  const columns = header.map(name => name.trim());
+  if (!columns.includes('Handle')) {
+    throw new Error('Not a Shopify product CSV: missing "Handle" column');
+  }
+
+  const products = new Map<string, FixtureProduct>();
+  const archived = new Set<string>();
+  const warnings: string[] = [];
+
+  rows.forEach((values, index) => {
+    const get = (column: string) => (values[columns.indexOf(column)] ?? '').trim();
+    const handle = get('Handle');
+    const line = index + 2;
+
+    if (!handle) {
+      warnings.push(`Row ${line}: missing handle`);
+      return;
+    }
+
+    if (archived.has(handle)) return;
+
+    let product = products.get(handle);
+    if (!product) {
+      const title = get('Title');
+      if (!title) {
+        warnings.push(`Row ${line}: product "${handle}" has no title on its first row`);
+        return;
+      }
+      if (get('Status') === 'archived') {
+        archived.add(handle);
+        return;
+      }
+
+      const options = ['Option1 Name', 'Option2 Name', 'Option3 Name']
+        .map(get)
+        .filter(name => name && name !== 'Title');
+
+      product = {
+        handle,
+        title,
+        description: get('Body (HTML)'),
+        vendor: get('Vendor'),
+        type: get('Type'),
+        tags: get('Tags').split(',').map(tag => tag.trim()).filter(Boolean),
+        options,
+        images: [],
+        variants: [],
+      };
+      products.set(handle, product);
+    }
+
+    const imageSrc = get('Image Src');
+    if (imageSrc && !product.images!.some(img => (typeof img === 'string' ? img : img.src) === imageSrc)) {
+      product.images!.push({ src: imageSrc, alt: get('Image Alt Text') || undefined });
+    }
+
+    // Image-only rows have no variant price
+    const price = toCents(get('Variant Price'));
+    if (price === null) return;
+
+    const optionValue = (column: string) => {
+      const value = get(column);
+      return value && value !== 'Default Title' ? value : null;
+    };
+    const inventory = parseInt(get('Variant Inventory Qty'), 10);
+    const tracked = get('Variant Inventory Tracker') !== '';
+    const oversell = get('Variant Inventory Policy') === 'continue';
+
+    const variant: FixtureVariant = {
+      sku: get('Variant SKU') || undefined,
+      barcode: get('Variant Barcode') || undefined,
+      price,
+      compare_at_price: toCents(get('Variant Compare At Price')),
+      option1: optionValue('Option1 Value'),
+      option2: optionValue('Option2 Value'),
+      option3: optionValue('Option3 Value'),
+      inventory_quantity: Number.isFinite(inventory) ? inventory : undefined,
+      available: !tracked || oversell || !Number.isFinite(inventory) || inventory > 0,
+      image: get('Variant Image') || undefined,
+    };
+    product.variants!.push(variant);
+  });
+
+  return { products: Array.from(products.values()), warnings };
+}
+
+// Import products from a Shopify CSV, replacing the fixture products (or merging by handle)
+export async function importProductCSV(
+  projectSlug: string,
+  csv: string,
+  options: { merge?: boolean },
+  locals: App.Locals
+): Promise<ProductCSVImportResult> {
+  const { products, warnings } = parseShopifyProductCSV(csv);
+  if (products.length === 0) {
+    throw new Error('No products found in CSV');
+  }
+
+  const existing = (await getProjectFixtures(projectSlug, locals)) ?? {};
+
+  let merged = products;
+  if (options.merge && existing.products) {
+    const handles = new Set(products.map(p => p.handle));
+    merged = [...existing.products.filter(p => !handles.has(p.handle)), ...products];
+  }
+
+  const fixtures = await saveProjectFixtures(projectSlug, { ...existing, products: merged }, locals);
+
+  return { fixtures, imported: products.length, warnings };
+}
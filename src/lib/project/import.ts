@@ -0,0 +1,254 @@
+import { unzipSync } from 'fflate';
+import { getCollection } from 'astro:content';
+import { getDB, generateId, now } from '../db';
+import { slugify } from './create';
+import type { CreateProjectInput } from './create';
+import { extractSchemaFromLiquid } from '../liquid/schema';
+import { parseTemplateJSON } from '../liquid/page-renderer';
+import { isSectionGroupName } from './section-groups';
+import { ProjectRequestError } from './errors';
+import type { SectionGroupName } from './section-groups';
+
+// Top-level directories of a Shopify theme; anything else in the ZIP is ignored
+const THEME_DIRECTORIES = ['assets', 'blocks', 'config', 'layout', 'locales', 'sections', 'snippets', 'templates'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  liquid: 'text/liquid',
+  json: 'application/json',
+  css: 'text/css',
+  js: 'application/javascript',
+  svg: 'image/svg+xml',
+};
+
+export interface ImportedFile {
+  path: string;
+  content: string;
+  contentType: string;
+}
+
+export interface LibraryMatch {
+  sectionSlug: string;
+  librarySlug: string;
+  matchedBy: 'slug' | 'name';
+}
+
+export interface ThemeImportResult {
+  slug: string;
+  fileCount: number;
+  sectionCount: number;
+  skippedFiles: string[];
+  libraryMatches: LibraryMatch[];
+}
+
+interface DerivedSection {
+  slug: string;
+  settings: Record<string, unknown>;
+  group: SectionGroupName | null;
+}
+
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+// Limits checked against the sizes in the ZIP directory before anything is inflated
+const MAX_ZIP_ENTRIES = 5000;
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 50 * 1024 * 1024;
+
+function getContentType(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[ext] ?? 'text/plain';
+}
+
+// Theme ZIPs downloaded from Shopify wrap everything in a single root folder
+function findRootPrefix(paths: string[]): string {
+  const themePaths = paths.filter(p => !p.startsWith('__MACOSX/'));
+  for (const path of themePaths) {
+    const parts = path.split('/');
+    const dirIndex = parts.findIndex(part => THEME_DIRECTORIES.includes(part));
+    if (dirIndex > 0 && parts[dirIndex + 1]) {
+      return parts.slice(0, dirIndex).join('/') + '/';
+    }
+  }
+  return '';
+}
+
+// Unpack a theme ZIP into text files; binary assets can't be stored in project_files
+export function unpackThemeZip(zipData: Uint8Array): { files: ImportedFile[]; skippedFiles: string[] } {
+  let entryCount = 0;
+  let totalSize = 0;
+  let entries: Record<string, Uint8Array>;
+
+  try {
+    entries = unzipSync(zipData, {
+      filter: file => {
+        entryCount++;
+        totalSize += file.originalSize;
+        if (entryCount > MAX_ZIP_ENTRIES) {
+          throw new ProjectRequestError(`ZIP has more than ${MAX_ZIP_ENTRIES} entries`, 400);
+        }
+        if (file.originalSize > MAX_FILE_SIZE) {
+          throw new ProjectRequestError(`"${file.name}" is larger than ${MAX_FILE_SIZE / 1024 / 1024} MB`, 400);
+        }
+        if (totalSize > MAX_TOTAL_SIZE) {
+          throw new ProjectRequestError(`ZIP contents are larger than ${MAX_TOTAL_SIZE / 1024 / 1024} MB`, 400);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof ProjectRequestError) throw error;
+    throw new ProjectRequestError(`Invalid ZIP file: ${error instanceof Error ? error.message : 'could not be read'}`, 400);
+  }
+
+  const prefix = findRootPrefix(Object.keys(entries));
+  const files: ImportedFile[] = [];
+  const skippedFiles: string[] = [];
+
+  for (const [entryPath, data] of Object.entries(entries)) {
+    // Skip directory entries and OS metadata
+    if (entryPath.endsWith('/') || entryPath.startsWith('__MACOSX/')) continue;
+
+    const path = entryPath.startsWith(prefix) ? entryPath.slice(prefix.length) : entryPath;
+    const [dir, name] = path.split('/');
+
+    if (!THEME_DIRECTORIES.includes(dir) || !name || name.startsWith('.')) {
+      skippedFiles.push(entryPath);
+      continue;
+    }
+
+    try {
+      files.push({ path, content: decoder.decode(data), contentType: getContentType(path) });
+    } catch {
+      skippedFiles.push(path);
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, skippedFiles };
+}
+
+// Derive project sections from the section files, in the order templates and groups use them
+export function deriveSections(files: ImportedFile[]): DerivedSection[] {
+  const sectionSlugs = files
+    .map(f => f.path.match(/^sections\/([\w-]+)\.liquid$/)?.[1])
+    .filter((slug): slug is string => Boolean(slug));
+
+  const derived = new Map<string, DerivedSection>();
+
+  // templates/index.json first so the homepage order wins, then groups and other templates
+  const jsonFiles = files
+    .filter(f => /^(templates\/.+|sections\/[\w-]+-group)\.json$/.test(f.path))
+    .sort((a, b) => {
+      const rank = (path: string) => path === 'templates/index.json' ? 0 : path.startsWith('sections/') ? 1 : 2;
+      return rank(a.path) - rank(b.path);
+    });
+
+  for (const file of jsonFiles) {
+    const data = parseTemplateJSON(file.content);
+    if (!data) continue;
+
+    const groupName = file.path.match(/^sections\/([\w-]+)\.json$/)?.[1];
+    const group = isSectionGroupName(groupName) ? groupName : null;
+
+    for (const id of data.order) {
+      const section = data.sections[id];
+      if (!section || !sectionSlugs.includes(section.type) || derived.has(section.type)) continue;
+      derived.set(section.type, {
+        slug: section.type,
+        settings: (section.settings as Record<string, unknown>) ?? {},
+        group,
+      });
+    }
+  }
+
+  // Section files no template references yet
+  for (const slug of sectionSlugs) {
+    if (!derived.has(slug)) {
+      derived.set(slug, { slug, settings: {}, group: null });
+    }
+  }
+
+  return Array.from(derived.values());
+}
+
+// Match imported sections to library sections by slug, then by schema name
+async function findLibraryMatches(files: ImportedFile[], sections: DerivedSection[]): Promise<LibraryMatch[]> {
+  const library = await getCollection('sections');
+  const matches: LibraryMatch[] = [];
+
+  for (const section of sections) {
+    const bySlug = library.find(s => s.data.slug === section.slug);
+    if (bySlug) {
+      matches.push({ sectionSlug: section.slug, librarySlug: bySlug.data.slug, matchedBy: 'slug' });
+      continue;
+    }
+
+    const file = files.find(f => f.path === `sections/${section.slug}.liquid`);
+    const schemaName = file ? extractSchemaFromLiquid(file.content)?.name : undefined;
+    if (typeof schemaName !== 'string') continue;
+
+    const byName = library.find(s => s.data.name.toLowerCase() === schemaName.toLowerCase());
+    if (byName) {
+      matches.push({ sectionSlug: section.slug, librarySlug: byName.data.slug, matchedBy: 'name' });
+    }
+  }
+
+  return matches;
+}
+
+export async function importThemeZip(
+  zipData: Uint8Array,
+  input: CreateProjectInput,
+  locals: App.Locals
+): Promise<ThemeImportResult> {
+  const db = getDB(locals);
+  const { name, storeUrl, description } = input;
+  const slug = slugify(name);
+  const timestamp = now();
+  const id = generateId();
+
+  const existing = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(slug)
+    .first();
+
+  if (existing) {
+    throw new ProjectRequestError(`Project with slug "${slug}" already exists`, 409);
+  }
+
+  const { files, skippedFiles } = unpackThemeZip(zipData);
+
+  if (!files.some(f => f.path === 'layout/theme.liquid')) {
+    throw new ProjectRequestError('ZIP does not contain a Shopify theme (layout/theme.liquid not found)', 400);
+  }
+
+  const sections = deriveSections(files);
+  const libraryMatches = await findLibraryMatches(files, sections);
+
+  // One batch, so a failed file write doesn't leave a project behind holding the slug
+  await db.batch([
+    db.prepare(`
+      INSERT INTO projects (id, slug, name, store_url, description, status, base_theme, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'draft', 'imported', ?, ?)
+    `).bind(id, slug, name, storeUrl || null, description || null, timestamp, timestamp),
+    ...files.map(file =>
+      db.prepare(`
+        INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(id, file.path, file.content, file.contentType, timestamp, timestamp)
+    ),
+    ...sections.map((section, position) =>
+      db.prepare(`
+        INSERT INTO project_sections (project_id, section_slug, position, settings, section_group, added_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(id, section.slug, position, JSON.stringify(section.settings), section.group, timestamp)
+    ),
+  ]);
+
+  return {
+    slug,
+    fileCount: files.length,
+    sectionCount: sections.length,
+    skippedFiles,
+    libraryMatches,
+  };
+}
@@ -0,0 +1,275 @@
+import { getDB, now } from '../db';
+import { saveProjectFile } from './files';
+import { ProjectRequestError } from './errors';
+import {
+  buildThemeLocales,
+  findTranslationKeys,
+  getLocaleName,
+  isLocaleCode,
+  parseLocalePath,
+} from '../liquid/locales';
+import type { LocaleMessages, ThemeLocales } from '../liquid/locales';
+
+export interface ProjectLocaleSummary {
+  code: string;
+  name: string;
+  isDefault: boolean;
+  path: string;
+  keyCount: number;
+  translatedCount: number;
+  completeness: number;
+}
+
+export interface TranslationKey {
+  key: string;
+  values: Record<string, string | null>;
+  // Liquid files that pass this key to the t filter
+  usedIn: string[];
+}
+
+export interface TranslationTable {
+  defaultLocale: string;
+  locales: string[];
+  keys: TranslationKey[];
+  // Keys used in Liquid that the default locale doesn't define
+  missingFromDefault: string[];
+}
+
+// Segments that would reach Object.prototype when written as a path
+const RESERVED_KEY_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+// "cart.general.title": non-empty dot-separated segments, none of them reserved
+export function isValidTranslationKey(key: string): boolean {
+  return key.split('.').every(segment => segment !== '' && !RESERVED_KEY_SEGMENTS.includes(segment));
+}
+
+// The first key that can't be written, or whose value isn't a string or null
+export function findInvalidTranslation(translations: Record<string, unknown>): string | null {
+  for (const [key, value] of Object.entries(translations)) {
+    if (!isValidTranslationKey(key)) return key;
+    if (value !== null && typeof value !== 'string') return key;
+  }
+  return null;
+}
+
+// Leaf strings keyed by dot path; plural forms are keys of their own (cart.items.one)
+function flattenMessages(messages: LocaleMessages, prefix = ''): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(messages)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object') {
+      Object.assign(result, flattenMessages(value, path));
+    } else if (typeof value === 'string') {
+      result[path] = value;
+    }
+  }
+  return result;
+}
+
+// Set or remove (null) a dot-path key, pruning objects left empty
+function setMessage(messages: LocaleMessages, key: string, value: string | null): void {
+  const [head, ...rest] = key.split('.');
+  if (rest.length === 0) {
+    if (value === null) {
+      delete messages[head];
+    } else {
+      messages[head] = value;
+    }
+    return;
+  }
+
+  const child = Object.hasOwn(messages, head) ? messages[head] : undefined;
+  if (!child || typeof child !== 'object') {
+    if (value === null) return;
+    messages[head] = {};
+  }
+
+  const nested = messages[head] as LocaleMessages;
+  setMessage(nested, rest.join('.'), value);
+  if (Object.keys(nested).length === 0) delete messages[head];
+}
+
+async function loadLocaleFiles(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<{ projectId: string; files: { path: string; content: string }[] }> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new ProjectRequestError(`Project "${projectSlug}" not found`, 404);
+  }
+
+  const files = await db
+    .prepare('SELECT file_path, content FROM project_files WHERE project_id = ? ORDER BY file_path')
+    .bind(project.id)
+    .all<{ file_path: string; content: string }>();
+
+  return {
+    projectId: project.id,
+    files: files.results.map(f => ({ path: f.file_path, content: f.content })),
+  };
+}
+
+// Storefront locale file path for a code, e.g. locales/fr.json or locales/en.default.json
+function getLocalePath(locales: ThemeLocales, code: string): string {
+  return locales.locales[code]?.isDefault ? `locales/${code}.default.json` : `locales/${code}.json`;
+}
+
+export async function listProjectLocales(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<ProjectLocaleSummary[]> {
+  const { files } = await loadLocaleFiles(projectSlug, locals);
+  const locales = buildThemeLocales(files);
+  const defaultKeys = Object.keys(flattenMessages(locales.locales[locales.defaultLocale]?.storefront ?? {}));
+
+  return Object.values(locales.locales)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.code.localeCompare(b.code))
+    .map(locale => {
+      const translated = flattenMessages(locale.storefront);
+      const translatedCount = defaultKeys.filter(key => translated[key]).length;
+      return {
+        code: locale.code,
+        name: getLocaleName(locale.code),
+        isDefault: locale.isDefault,
+        path: getLocalePath(locales, locale.code),
+        keyCount: defaultKeys.length,
+        translatedCount,
+        completeness: defaultKeys.length > 0 ? Math.round((translatedCount / defaultKeys.length) * 100) : 100,
+      };
+    });
+}
+
+// Every key in the default locale or used in Liquid, with each locale's value
+export async function getTranslationTable(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<TranslationTable> {
+  const { files } = await loadLocaleFiles(projectSlug, locals);
+  const locales = buildThemeLocales(files);
+
+  const codes = Object.values(locales.locales)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.code.localeCompare(b.code))
+    .map(locale => locale.code);
+  const messages = Object.fromEntries(
+    codes.map(code => [code, flattenMessages(locales.locales[code].storefront)])
+  );
+
+  const usage = new Map<string, Set<string>>();
+  for (const file of files.filter(f => f.path.endsWith('.liquid'))) {
+    for (const { key } of findTranslationKeys(file.content)) {
+      if (!usage.has(key)) usage.set(key, new Set());
+      usage.get(key)!.add(file.path);
+    }
+  }
+
+  const defaultMessages = messages[locales.defaultLocale] ?? {};
+  const defaultKeys = new Set(Object.keys(defaultMessages));
+
+  // A pluralized key used in Liquid (cart.items) is defined through its forms (cart.items.one)
+  const isDefined = (key: string) =>
+    defaultKeys.has(key) || Array.from(defaultKeys).some(k => k.startsWith(`${key}.`));
+  const missingFromDefault = Array.from(usage.keys()).filter(key => !isDefined(key)).sort();
+
+  const allKeys = new Set([...defaultKeys, ...missingFromDefault]);
+
+  const keys = Array.from(allKeys).sort().map(key => ({
+    key,
+    values: Object.fromEntries(codes.map(code => [code, messages[code][key] ?? null])),
+    usedIn: Array.from(usage.get(key) ?? usage.get(key.replace(/\.[^.]+$/, '')) ?? []).sort(),
+  }));
+
+  return { defaultLocale: locales.defaultLocale, locales: codes, keys, missingFromDefault };
+}
+
+// Add a storefront locale file, optionally seeded with the default locale's text
+export async function addProjectLocale(
+  projectSlug: string,
+  code: string,
+  options: { copyDefault?: boolean },
+  locals: App.Locals
+): Promise<ProjectLocaleSummary> {
+  if (!isLocaleCode(code)) {
+    throw new ProjectRequestError(`Invalid locale code "${code}"`, 400);
+  }
+
+  const { projectId, files } = await loadLocaleFiles(projectSlug, locals);
+  const locales = buildThemeLocales(files);
+
+  const exists = files.some(f => {
+    const parsed = parseLocalePath(f.path);
+    return parsed && !parsed.isSchema && parsed.code === code;
+  });
+  if (exists) {
+    throw new ProjectRequestError(`Locale "${code}" already exists`, 409);
+  }
+
+  const content = options.copyDefault
+    ? locales.locales[locales.defaultLocale]?.storefront ?? {}
+    : {};
+
+  await saveProjectFile(
+    projectSlug,
+    `locales/${code}.json`,
+    JSON.stringify(content, null, 2),
+    'application/json',
+    locals,
+    { reason: `add locale ${code}` }
+  );
+
+  await getDB(locals)
+    .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
+    .bind(now(), projectId)
+    .run();
+
+  const summaries = await listProjectLocales(projectSlug, locals);
+  return summaries.find(s => s.code === code)!;
+}
+
+// Write translations for one locale; null or empty values remove the key
+export async function updateTranslations(
+  projectSlug: string,
+  code: string,
+  translations: Record<string, string | null>,
+  locals: App.Locals
+): Promise<ProjectLocaleSummary> {
+  const { projectId, files } = await loadLocaleFiles(projectSlug, locals);
+  const locales = buildThemeLocales(files);
+  const locale = locales.locales[code];
+
+  if (!locale) {
+    throw new ProjectRequestError(`Locale "${code}" not found`, 404);
+  }
+
+  const invalidKey = findInvalidTranslation(translations);
+  if (invalidKey !== null) {
+    throw new ProjectRequestError(`Invalid translation for "${invalidKey}"`, 400);
+  }
+
+  const messages: LocaleMessages = structuredClone(locale.storefront);
+  for (const [key, value] of Object.entries(translations)) {
+    setMessage(messages, key, value ? value : null);
+  }
+
+  await saveProjectFile(
+    projectSlug,
+    getLocalePath(locales, code),
+    JSON.stringify(messages, null, 2),
+    'application/json',
+    locals,
+    { reason: `update translations ${code}` }
+  );
+
+  await getDB(locals)
+    .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
+    .bind(now(), projectId)
+    .run();
+
+  const summaries = await listProjectLocales(projectSlug, locals);
+  return summaries.find(s => s.code === code)!;
+}
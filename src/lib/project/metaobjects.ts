@@ -0,0 +1,180 @@
+import { getDB, now } from '../db';
+import { getCollection } from 'astro:content';
+import type { MetaobjectDefinition } from '../liquid/metaobjects';
+
+// Entry for Shopify's metaobjectDefinitionCreate mutation
+export interface MetaobjectDefinitionInput {
+  type: string;
+  name: string;
+  description?: string;
+  displayNameKey?: string;
+  access: { storefront: 'PUBLIC_READ' };
+  capabilities: {
+    publishable: { enabled: boolean };
+    translatable: { enabled: boolean };
+    onlineStore: { enabled: boolean };
+  };
+  fieldDefinitions: {
+    key: string;
+    name: string;
+    type: string;
+    description?: string;
+    required: boolean;
+    validations: unknown[];
+  }[];
+}
+
+export interface MetaobjectManifest {
+  project: string;
+  generatedAt: string;
+  definitions: MetaobjectDefinitionInput[];
+}
+
+async function getProjectId(projectSlug: string, locals: App.Locals): Promise<string> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  return project.id;
+}
+
+export async function addMetaobjectToProject(
+  projectSlug: string,
+  metaobjectSlug: string,
+  locals: App.Locals
+): Promise<void> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+
+  // Verify metaobject exists in library
+  const metaobjects = await getCollection('metaobjects');
+  const metaobject = metaobjects.find(m => m.data.slug === metaobjectSlug);
+
+  if (!metaobject) {
+    throw new Error(`Metaobject "${metaobjectSlug}" not found in library`);
+  }
+
+  const existing = await db
+    .prepare('SELECT id FROM project_metaobjects WHERE project_id = ? AND metaobject_slug = ?')
+    .bind(projectId, metaobjectSlug)
+    .first();
+
+  if (existing) {
+    throw new Error(`Metaobject "${metaobjectSlug}" is already in project "${projectSlug}"`);
+  }
+
+  const lastPosition = await db
+    .prepare('SELECT MAX(position) as maxPos FROM project_metaobjects WHERE project_id = ?')
+    .bind(projectId)
+    .first<{ maxPos: number | null }>();
+
+  const position = (lastPosition?.maxPos ?? -1) + 1;
+  const timestamp = now();
+
+  await db.batch([
+    db.prepare(`
+      INSERT INTO project_metaobjects (project_id, metaobject_slug, position, added_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(projectId, metaobjectSlug, position, timestamp),
+    db.prepare('UPDATE projects SET updated_at = ? WHERE id = ?').bind(timestamp, projectId),
+  ]);
+}
+
+export async function removeMetaobjectFromProject(
+  projectSlug: string,
+  metaobjectSlug: string,
+  locals: App.Locals
+): Promise<boolean> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+
+  const result = await db
+    .prepare('DELETE FROM project_metaobjects WHERE project_id = ? AND metaobject_slug = ?')
+    .bind(projectId, metaobjectSlug)
+    .run();
+
+  const removed = result.meta.changes > 0;
+  if (removed) {
+    await db
+      .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
+      .bind(now(), projectId)
+      .run();
+  }
+
+  return removed;
+}
+
+// Library definitions for the project's metaobjects, in the order they were added.
+// Slugs whose library file has since been removed are skipped, and an unknown project has none.
+export async function getProjectMetaobjectDefinitions(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<MetaobjectDefinition[]> {
+  const rows = await getDB(locals)
+    .prepare(`
+      SELECT m.metaobject_slug FROM project_metaobjects m
+      JOIN projects p ON p.id = m.project_id
+      WHERE p.slug = ?
+      ORDER BY m.position
+    `)
+    .bind(projectSlug)
+    .all<{ metaobject_slug: string }>();
+
+  if (rows.results.length === 0) return [];
+
+  const metaobjects = await getCollection('metaobjects');
+  return rows.results
+    .map(row => metaobjects.find(m => m.data.slug === row.metaobject_slug)?.data)
+    .filter((definition): definition is MetaobjectDefinition => Boolean(definition));
+}
+
+// Display name defaults to the first required single-line text field, as the Shopify admin does
+function getDisplayNameKey(definition: MetaobjectDefinition): string | undefined {
+  const textFields = definition.fields.filter(f => f.type === 'single_line_text_field');
+  return (textFields.find(f => f.required) ?? textFields[0])?.key;
+}
+
+export function toMetaobjectDefinitionInput(definition: MetaobjectDefinition): MetaobjectDefinitionInput {
+  return {
+    type: definition.type,
+    name: definition.name,
+    description: definition.description,
+    displayNameKey: getDisplayNameKey(definition),
+    // Liquid can only read metaobjects the storefront has access to
+    access: { storefront: 'PUBLIC_READ' },
+    capabilities: {
+      publishable: { enabled: Boolean(definition.capabilities?.publishable) },
+      translatable: { enabled: Boolean(definition.capabilities?.translatable) },
+      onlineStore: { enabled: Boolean(definition.capabilities?.onlineStore) },
+    },
+    fieldDefinitions: definition.fields.map(field => ({
+      key: field.key,
+      name: field.name,
+      type: field.type,
+      description: field.description,
+      required: Boolean(field.required),
+      validations: field.validations ?? [],
+    })),
+  };
+}
+
+// Definitions to create in the store before uploading the theme
+export async function generateMetaobjectManifest(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<MetaobjectManifest> {
+  const definitions = await getProjectMetaobjectDefinitions(projectSlug, locals);
+
+  return {
+    project: projectSlug,
+    generatedAt: now(),
+    definitions: definitions.map(toMetaobjectDefinitionInput),
+  };
+}
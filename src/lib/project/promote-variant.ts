@@ -1,20 +1,10 @@
 import { getDB, generateId, now, toJSON, parseJSON } from '../db';
 import type { VariantData, VariantRow } from '../db/schema';
 import { getCollection } from 'astro:content';
+import { extractSchemaFromLiquid } from '../liquid/schema';
 
 export type { VariantData };
 
-function extractSchemaFromLiquid(liquidContent: string): Record<string, unknown> | null {
-  const schemaMatch = liquidContent.match(/\{%\s*schema\s*%\}([\s\S]*?)\{%\s*endschema\s*%\}/);
-  if (!schemaMatch) return null;
-
-  try {
-    return JSON.parse(schemaMatch[1].trim());
-  } catch {
-    return null;
-  }
-}
-
 function slugify(text: string): string {
   return text
     .toLowerCase()
@@ -0,0 +1,404 @@
+import { getDB, now } from '../db';
+import type { ProjectFileRevisionRow } from '../db/schema';
+
+type PreparedStatement = ReturnType<ReturnType<typeof getDB>['prepare']>;
+
+export interface FileRevisionOptions {
+  author?: string;
+  reason?: string;
+}
+
+export interface FileRevision {
+  id: number;
+  filePath: string;
+  author: string | null;
+  reason: string | null;
+  deleted: boolean;
+  createdAt: string;
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface RevisionDiff {
+  from: FileRevision;
+  to: FileRevision;
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+export interface RestoreResult {
+  restored: string[];
+  deleted: string[];
+}
+
+function toFileRevision(row: Omit<ProjectFileRevisionRow, 'project_id' | 'content_type'>): FileRevision {
+  return {
+    id: row.id,
+    filePath: row.file_path,
+    author: row.author,
+    reason: row.reason,
+    deleted: row.content === null,
+    createdAt: row.created_at,
+  };
+}
+
+// Drop content so listings and diffs don't repeat whole files
+function revisionMeta({ id, filePath, author, reason, deleted, createdAt }: FileRevision): FileRevision {
+  return { id, filePath, author, reason, deleted, createdAt };
+}
+
+async function getProjectId(projectSlug: string, locals: App.Locals): Promise<string> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  return project.id;
+}
+
+// Statements recording a revision for a file write, to run in the same batch as the
+// write so a failed write leaves no revision behind. Prepare them before the write so
+// the previous content can be kept as a baseline. A null content records a deletion.
+export async function prepareFileRevision(
+  projectId: string,
+  filePath: string,
+  content: string | null,
+  contentType: string,
+  options: FileRevisionOptions,
+  locals: App.Locals
+): Promise<PreparedStatement[]> {
+  const db = getDB(locals);
+
+  const current = await db
+    .prepare('SELECT content, content_type, updated_at FROM project_files WHERE project_id = ? AND file_path = ?')
+    .bind(projectId, filePath)
+    .first<{ content: string; content_type: string; updated_at: string }>();
+
+  // Writes that don't change anything aren't worth a revision
+  if ((current?.content ?? null) === content) return [];
+
+  const history = await db
+    .prepare('SELECT COUNT(*) as count FROM project_file_revisions WHERE project_id = ? AND file_path = ?')
+    .bind(projectId, filePath)
+    .first<{ count: number }>();
+
+  const statements: PreparedStatement[] = [];
+
+  // Files written before history existed get their current content as the first revision
+  if (!history?.count) {
+    if (current) {
+      statements.push(
+        db.prepare(`
+          INSERT INTO project_file_revisions (project_id, file_path, content, content_type, author, reason, created_at)
+          VALUES (?, ?, ?, ?, NULL, 'initial version', ?)
+        `).bind(projectId, filePath, current.content, current.content_type, current.updated_at)
+      );
+    }
+  }
+
+  statements.push(
+    db.prepare(`
+      INSERT INTO project_file_revisions (project_id, file_path, content, content_type, author, reason, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(projectId, filePath, content, contentType, options.author ?? null, options.reason ?? null, now())
+  );
+
+  return statements;
+}
+
+export async function listFileRevisions(
+  projectSlug: string,
+  filePath: string | undefined,
+  locals: App.Locals
+): Promise<FileRevision[]> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+
+  const query = filePath
+    ? db.prepare(`
+        SELECT id, file_path, author, reason, created_at, content IS NULL as deleted
+        FROM project_file_revisions
+        WHERE project_id = ? AND file_path = ?
+        ORDER BY created_at DESC, id DESC
+      `).bind(projectId, filePath)
+    : db.prepare(`
+        SELECT id, file_path, author, reason, created_at, content IS NULL as deleted
+        FROM project_file_revisions
+        WHERE project_id = ?
+        ORDER BY created_at DESC, id DESC
+      `).bind(projectId);
+
+  const rows = await query.all<{
+    id: number;
+    file_path: string;
+    author: string | null;
+    reason: string | null;
+    created_at: string;
+    deleted: number;
+  }>();
+
+  return rows.results.map(row => ({
+    id: row.id,
+    filePath: row.file_path,
+    author: row.author,
+    reason: row.reason,
+    deleted: Boolean(row.deleted),
+    createdAt: row.created_at,
+  }));
+}
+
+export async function getFileRevision(
+  projectSlug: string,
+  revisionId: number,
+  locals: App.Locals
+): Promise<(FileRevision & { content: string | null; contentType: string }) | null> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+
+  const row = await db
+    .prepare('SELECT * FROM project_file_revisions WHERE id = ? AND project_id = ?')
+    .bind(revisionId, projectId)
+    .first<ProjectFileRevisionRow>();
+
+  if (!row) return null;
+
+  return { ...toFileRevision(row), content: row.content, contentType: row.content_type };
+}
+
+// Largest LCS table diffLines builds; bigger changes are shown as a whole-block replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Line diff based on the longest common subsequence of the two texts
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText ? oldText.split('\n') : [];
+  const b = newText ? newText.split('\n') : [];
+
+  // Trim the common prefix and suffix to keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]. Past the cell limit the table stays
+  // empty, which makes the walk below remove every changed line and then add the new ones.
+  const tooLarge = (midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS;
+  const lcs: Uint32Array[] = Array.from(
+    { length: midA.length + 1 },
+    () => new Uint32Array(tooLarge ? 0 : midB.length + 1)
+  );
+  for (let i = tooLarge ? -1 : midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    lines.push({ type: 'context', content: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (!tooLarge && i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'context', content: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < midA.length && (tooLarge || j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: 'removed', content: midA[i], oldLine: start + i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'added', content: midB[j], newLine: start + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    lines.push({
+      type: 'context',
+      content: a[endA + k],
+      oldLine: endA + k + 1,
+      newLine: endB + k + 1,
+    });
+  }
+
+  return lines;
+}
+
+export async function diffRevisions(
+  projectSlug: string,
+  fromId: number,
+  toId: number,
+  locals: App.Locals
+): Promise<RevisionDiff> {
+  const [from, to] = await Promise.all([
+    getFileRevision(projectSlug, fromId, locals),
+    getFileRevision(projectSlug, toId, locals),
+  ]);
+
+  if (!from || !to) {
+    throw new Error(`Revision ${!from ? fromId : toId} not found`);
+  }
+
+  const lines = diffLines(from.content ?? '', to.content ?? '');
+
+  return {
+    from: revisionMeta(from),
+    to: revisionMeta(to),
+    lines,
+    added: lines.filter(l => l.type === 'added').length,
+    removed: lines.filter(l => l.type === 'removed').length,
+  };
+}
+
+// Statements writing a file's content (or deleting it) as part of a restore, with its revision
+async function prepareFileState(
+  projectId: string,
+  filePath: string,
+  content: string | null,
+  contentType: string,
+  options: FileRevisionOptions,
+  locals: App.Locals
+): Promise<PreparedStatement[]> {
+  const db = getDB(locals);
+  const timestamp = now();
+
+  const revision = await prepareFileRevision(projectId, filePath, content, contentType, options, locals);
+
+  return [
+    ...revision,
+    content === null
+      ? db.prepare('DELETE FROM project_files WHERE project_id = ? AND file_path = ?')
+        .bind(projectId, filePath)
+      : db.prepare(`
+        INSERT INTO project_files (project_id, file_path, content, content_type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(project_id, file_path) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at
+      `).bind(projectId, filePath, content, contentType, timestamp, timestamp),
+  ];
+}
+
+// Roll a single file back to the content of one of its revisions
+export async function restoreFileRevision(
+  projectSlug: string,
+  revisionId: number,
+  options: FileRevisionOptions,
+  locals: App.Locals
+): Promise<RestoreResult> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+  const revision = await getFileRevision(projectSlug, revisionId, locals);
+
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} not found`);
+  }
+
+  const statements = await prepareFileState(
+    projectId,
+    revision.filePath,
+    revision.content,
+    revision.contentType,
+    { author: options.author, reason: options.reason ?? `restore revision #${revisionId}` },
+    locals
+  );
+
+  await db.batch([
+    ...statements,
+    db.prepare('UPDATE projects SET updated_at = ? WHERE id = ?').bind(now(), projectId),
+  ]);
+
+  return revision.content === null
+    ? { restored: [], deleted: [revision.filePath] }
+    : { restored: [revision.filePath], deleted: [] };
+}
+
+// Roll every project file back to its state at a point in time
+export async function restoreProjectToTime(
+  projectSlug: string,
+  timestamp: string,
+  options: FileRevisionOptions,
+  locals: App.Locals
+): Promise<RestoreResult> {
+  const db = getDB(locals);
+  const projectId = await getProjectId(projectSlug, locals);
+  const reason = options.reason ?? `restore project to ${timestamp}`;
+  const result: RestoreResult = { restored: [], deleted: [] };
+  const statements: PreparedStatement[] = [];
+
+  const [files, revisions] = await Promise.all([
+    db.prepare('SELECT file_path, content, content_type, created_at FROM project_files WHERE project_id = ?')
+      .bind(projectId)
+      .all<{ file_path: string; content: string; content_type: string; created_at: string }>(),
+    db.prepare(`
+      SELECT file_path, content, content_type, created_at
+      FROM project_file_revisions
+      WHERE project_id = ?
+      ORDER BY created_at, id
+    `)
+      .bind(projectId)
+      .all<{ file_path: string; content: string | null; content_type: string; created_at: string }>(),
+  ]);
+
+  const current = new Map(files.results.map(f => [f.file_path, f]));
+  const paths = new Set([...current.keys(), ...revisions.results.map(r => r.file_path)]);
+
+  for (const path of paths) {
+    const history = revisions.results.filter(r => r.file_path === path);
+    const file = current.get(path);
+
+    // State at the timestamp: the last revision at or before it. Without one, the file
+    // existed then only if it was created before it (the first revision of older files is
+    // stamped with their last write, not their creation). Content older than the history
+    // can't be recovered, so such files are left as they are.
+    let target: { content: string | null; contentType: string };
+    const before = history.filter(r => r.created_at <= timestamp).pop();
+    if (before) {
+      target = { content: before.content, contentType: before.content_type };
+    } else if (file && file.created_at > timestamp) {
+      target = { content: null, contentType: file.content_type };
+    } else {
+      continue;
+    }
+
+    if ((file?.content ?? null) === target.content) continue;
+
+    statements.push(
+      ...await prepareFileState(projectId, path, target.content, target.contentType, { author: options.author, reason }, locals)
+    );
+
+    if (target.content === null) {
+      result.deleted.push(path);
+    } else {
+      result.restored.push(path);
+    }
+  }
+
+  // One batch, so a failed write leaves the project as it was rather than half restored
+  if (statements.length > 0) {
+    await db.batch([
+      ...statements,
+      db.prepare('UPDATE projects SET updated_at = ? WHERE id = ?').bind(now(), projectId),
+    ]);
+  }
+
+  return result;
+}
@@ -0,0 +1,234 @@
+import { getDB, now } from '../db';
+import { getProjectFile, saveProjectFile } from './files';
+
+// Section groups rendered by {% sections %} in layout/theme.liquid
+export const SECTION_GROUPS = {
+  'header-group': { type: 'header', name: 'Header group' },
+  'footer-group': { type: 'footer', name: 'Footer group' },
+} as const;
+
+export type SectionGroupName = keyof typeof SECTION_GROUPS;
+
+export interface SectionGroupSection {
+  id: number;
+  sectionSlug: string;
+  position: number;
+  settings: Record<string, unknown>;
+}
+
+// Entries keep whatever else the theme stored on them: blocks, block_order, disabled, custom_css
+export interface SectionGroupEntry {
+  type: string;
+  settings: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface SectionGroupFile {
+  type: string;
+  name: string;
+  sections: Record<string, SectionGroupEntry>;
+  order: string[];
+}
+
+export function isSectionGroupName(value: unknown): value is SectionGroupName {
+  return typeof value === 'string' && Object.hasOwn(SECTION_GROUPS, value);
+}
+
+// Library sections in the header/footer categories join the matching group when added
+export function getDefaultSectionGroup(category: string | undefined): SectionGroupName | null {
+  if (category === 'header') return 'header-group';
+  if (category === 'footer') return 'footer-group';
+  return null;
+}
+
+export function getSectionGroupPath(group: SectionGroupName): string {
+  return `sections/${group}.json`;
+}
+
+function parseSettings(settings: string | null): Record<string, unknown> {
+  if (!settings) return {};
+  try {
+    return JSON.parse(settings);
+  } catch {
+    return {};
+  }
+}
+
+export function parseSectionGroupFile(content: string | null): SectionGroupFile | null {
+  if (!content) return null;
+  try {
+    // Shopify prefixes generated group files with a comment block
+    const data = JSON.parse(content.replace(/^\s*\/\*[\s\S]*?\*\//, '')) as Partial<SectionGroupFile>;
+    if (!data || typeof data !== 'object' || !data.sections || typeof data.sections !== 'object') return null;
+    return {
+      ...data,
+      type: data.type ?? '',
+      name: data.name ?? '',
+      sections: data.sections,
+      order: Array.isArray(data.order) ? data.order : Object.keys(data.sections),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// App sections aren't project sections, so membership changes never drop them
+function isAppSection(type: string): boolean {
+  return type.startsWith('shopify://apps/');
+}
+
+// Build the group JSON file Shopify expects in sections/*-group.json. An existing file is
+// merged rather than replaced: entries keep their ids, blocks and other fields, members take
+// their settings and order from project_sections, and sections no longer in the group are dropped.
+export function generateSectionGroupFile(
+  group: SectionGroupName,
+  sections: SectionGroupSection[],
+  existing: SectionGroupFile | null = null
+): SectionGroupFile {
+  const file: SectionGroupFile = {
+    ...existing,
+    type: SECTION_GROUPS[group].type,
+    name: existing?.name || SECTION_GROUPS[group].name,
+    sections: {},
+    order: [],
+  };
+
+  const existingOrder = existing?.order.filter(id => existing.sections[id]) ?? [];
+  const memberTypes = new Set(sections.map(section => section.sectionSlug));
+
+  // Member entries in project_sections order; a theme can place the same section type more than once
+  const memberIds: string[] = [];
+  for (const section of sections) {
+    const ids = existingOrder.filter(id => existing!.sections[id].type === section.sectionSlug);
+
+    if (ids.length === 0) {
+      let id = section.sectionSlug;
+      for (let n = 2; existing?.sections[id] || file.sections[id]; n++) id = `${section.sectionSlug}-${n}`;
+      file.sections[id] = { type: section.sectionSlug, settings: section.settings };
+      memberIds.push(id);
+      continue;
+    }
+
+    // project_sections holds the settings of the first instance, as the import took them
+    file.sections[ids[0]] = { ...existing!.sections[ids[0]], settings: section.settings };
+    for (const id of ids.slice(1)) file.sections[id] = existing!.sections[id];
+    memberIds.push(...ids);
+  }
+
+  // App sections keep their slots; the slots of member sections are refilled in position order
+  const queue = [...memberIds];
+  for (const id of existingOrder) {
+    const entry = existing!.sections[id];
+    if (isAppSection(entry.type)) {
+      file.sections[id] = entry;
+      file.order.push(id);
+    } else if (memberTypes.has(entry.type)) {
+      file.order.push(queue.shift()!);
+    }
+  }
+  file.order.push(...queue);
+
+  return file;
+}
+
+export async function getProjectSectionGroups(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<Record<SectionGroupName, SectionGroupSection[]> | null> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) return null;
+
+  const rows = await db
+    .prepare(`
+      SELECT id, section_slug, position, settings, section_group
+      FROM project_sections
+      WHERE project_id = ? AND section_group IS NOT NULL
+      ORDER BY position
+    `)
+    .bind(project.id)
+    .all<{ id: number; section_slug: string; position: number; settings: string | null; section_group: string }>();
+
+  const groups: Record<SectionGroupName, SectionGroupSection[]> = {
+    'header-group': [],
+    'footer-group': [],
+  };
+
+  for (const row of rows.results) {
+    if (!isSectionGroupName(row.section_group)) continue;
+    groups[row.section_group].push({
+      id: row.id,
+      sectionSlug: row.section_slug,
+      position: row.position,
+      settings: parseSettings(row.settings),
+    });
+  }
+
+  return groups;
+}
+
+// Update sections/*-group.json to match project_sections membership
+export async function writeSectionGroupFiles(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<void> {
+  const groups = await getProjectSectionGroups(projectSlug, locals);
+  if (!groups) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  for (const group of Object.keys(SECTION_GROUPS) as SectionGroupName[]) {
+    const path = getSectionGroupPath(group);
+    const existing = parseSectionGroupFile(await getProjectFile(projectSlug, path, locals));
+    const file = generateSectionGroupFile(group, groups[group], existing);
+    await saveProjectFile(
+      projectSlug,
+      path,
+      JSON.stringify(file, null, 2),
+      'application/json',
+      locals,
+      { reason: 'update section groups' }
+    );
+  }
+}
+
+// Move a project section into a group, or back to templates with null
+export async function setSectionGroup(
+  projectSlug: string,
+  sectionSlug: string,
+  group: SectionGroupName | null,
+  locals: App.Locals
+): Promise<boolean> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) {
+    throw new Error(`Project "${projectSlug}" not found`);
+  }
+
+  const timestamp = now();
+
+  const result = await db
+    .prepare('UPDATE project_sections SET section_group = ? WHERE project_id = ? AND section_slug = ?')
+    .bind(group, project.id, sectionSlug)
+    .run();
+
+  if (result.meta.changes === 0) return false;
+
+  await db
+    .prepare('UPDATE projects SET updated_at = ? WHERE id = ?')
+    .bind(timestamp, project.id)
+    .run();
+
+  await writeSectionGroupFiles(projectSlug, locals);
+  return true;
+}
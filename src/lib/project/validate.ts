@@ -0,0 +1,377 @@
+import { getDB } from '../db';
+import { flattenLocale, findTranslationKeys } from '../liquid/locales';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCheck =
+  | 'required-file'
+  | 'required-directory'
+  | 'invalid-json'
+  | 'invalid-schema'
+  | 'invalid-setting-type'
+  | 'missing-setting-id'
+  | 'duplicate-setting-id'
+  | 'missing-options'
+  | 'missing-locale-key'
+  | 'missing-snippet'
+  | 'missing-section';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  severity: ValidationSeverity;
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  fileCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+  checkedAt: string;
+}
+
+interface ThemeFile {
+  path: string;
+  content: string;
+}
+
+// Directories every Shopify theme must contain
+const REQUIRED_DIRECTORIES = ['assets', 'config', 'layout', 'locales', 'sections', 'snippets', 'templates'];
+
+// Files Shopify refuses to upload a theme without
+const REQUIRED_FILES = ['layout/theme.liquid', 'config/settings_schema.json'];
+
+// Input and sidebar setting types accepted in {% schema %} and settings_schema.json
+export const SHOPIFY_SETTING_TYPES = [
+  'checkbox', 'number', 'radio', 'range', 'select', 'text', 'textarea',
+  'article', 'blog', 'collection', 'collection_list', 'color', 'color_background',
+  'color_scheme', 'color_scheme_group', 'font_picker', 'html', 'image_picker',
+  'inline_richtext', 'link_list', 'liquid', 'metaobject', 'metaobject_list', 'page',
+  'product', 'product_list', 'richtext', 'text_alignment', 'url', 'video', 'video_url',
+  'header', 'paragraph',
+];
+
+// Sidebar settings are informational and carry no id
+const SIDEBAR_SETTING_TYPES = ['header', 'paragraph'];
+
+interface SchemaSetting {
+  type?: string;
+  id?: string;
+  options?: unknown[];
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateSettings(
+  settings: unknown,
+  file: string,
+  scope: string,
+  issues: ValidationIssue[]
+): void {
+  if (!Array.isArray(settings)) return;
+
+  const seen = new Set<string>();
+
+  for (const [index, entry] of settings.entries()) {
+    if (!isObject(entry)) {
+      issues.push({
+        check: 'invalid-setting-type',
+        severity: 'error',
+        file,
+        message: `${scope}: setting ${index + 1} is not an object`,
+      });
+      continue;
+    }
+
+    const setting = entry as SchemaSetting;
+    if (!setting.type || !SHOPIFY_SETTING_TYPES.includes(setting.type)) {
+      issues.push({
+        check: 'invalid-setting-type',
+        severity: 'error',
+        file,
+        message: `${scope}: setting "${setting.id ?? '(no id)'}" has unknown type "${setting.type ?? ''}"`,
+      });
+    }
+
+    if (setting.type && SIDEBAR_SETTING_TYPES.includes(setting.type)) continue;
+
+    if (!setting.id) {
+      issues.push({
+        check: 'missing-setting-id',
+        severity: 'error',
+        file,
+        message: `${scope}: "${setting.type}" setting is missing an id`,
+      });
+      continue;
+    }
+
+    if (seen.has(setting.id)) {
+      issues.push({
+        check: 'duplicate-setting-id',
+        severity: 'error',
+        file,
+        message: `${scope}: duplicate setting id "${setting.id}"`,
+      });
+    }
+    seen.add(setting.id);
+
+    if ((setting.type === 'select' || setting.type === 'radio') &&
+        (!Array.isArray(setting.options) || setting.options.length === 0)) {
+      issues.push({
+        check: 'missing-options',
+        severity: 'error',
+        file,
+        message: `${scope}: ${setting.type} setting "${setting.id}" has no options`,
+      });
+    }
+  }
+}
+
+// Validate the {% schema %} block of a section or block file
+function validateLiquidSchema(file: ThemeFile, issues: ValidationIssue[]): void {
+  const match = file.content.match(/\{%-?\s*schema\s*-?%\}([\s\S]*?)\{%-?\s*endschema\s*-?%\}/);
+
+  if (!match) {
+    if (file.path.startsWith('sections/')) {
+      issues.push({
+        check: 'invalid-schema',
+        severity: 'warning',
+        file: file.path,
+        message: 'Section has no {% schema %} block and will not appear in the theme editor',
+      });
+    }
+    return;
+  }
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(match[1].trim());
+  } catch (error) {
+    issues.push({
+      check: 'invalid-schema',
+      severity: 'error',
+      file: file.path,
+      line: lineAt(file.content, match.index ?? 0),
+      message: `Schema is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+    });
+    return;
+  }
+
+  if (!isObject(schema)) {
+    issues.push({
+      check: 'invalid-schema',
+      severity: 'error',
+      file: file.path,
+      line: lineAt(file.content, match.index ?? 0),
+      message: 'Schema must be a JSON object',
+    });
+    return;
+  }
+
+  const { settings, blocks } = schema as { settings?: unknown; blocks?: unknown };
+  validateSettings(settings, file.path, 'settings', issues);
+
+  if (Array.isArray(blocks)) {
+    for (const block of blocks.filter(isObject) as { type?: string; settings?: unknown }[]) {
+      validateSettings(block.settings, file.path, `block "${block.type ?? 'unknown'}"`, issues);
+    }
+  }
+}
+
+// Validate config/settings_schema.json, an array of setting groups
+function validateSettingsSchema(file: ThemeFile, issues: ValidationIssue[]): void {
+  let groups: unknown;
+  try {
+    groups = JSON.parse(file.content);
+  } catch {
+    return; // Reported by the JSON check
+  }
+
+  if (!Array.isArray(groups)) {
+    issues.push({
+      check: 'invalid-schema',
+      severity: 'error',
+      file: file.path,
+      message: 'settings_schema.json must be an array of setting groups',
+    });
+    return;
+  }
+
+  for (const group of groups.filter(isObject) as { name?: string; settings?: unknown }[]) {
+    validateSettings(group.settings, file.path, `group "${group.name ?? 'unnamed'}"`, issues);
+  }
+}
+
+// Run every check against a set of theme files
+export function validateThemeFiles(files: ThemeFile[]): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const paths = new Set(files.map(f => f.path));
+
+  // Required structure
+  for (const dir of REQUIRED_DIRECTORIES) {
+    if (!files.some(f => f.path.startsWith(`${dir}/`))) {
+      issues.push({
+        check: 'required-directory',
+        severity: 'error',
+        file: `${dir}/`,
+        message: `Required directory "${dir}" is missing or empty`,
+      });
+    }
+  }
+
+  for (const required of REQUIRED_FILES) {
+    if (!paths.has(required)) {
+      issues.push({
+        check: 'required-file',
+        severity: 'error',
+        file: required,
+        message: `Required file "${required}" is missing`,
+      });
+    }
+  }
+
+  const defaultLocale = files.find(f => /^locales\/[\w-]+\.default\.json$/.test(f.path));
+  if (!defaultLocale) {
+    issues.push({
+      check: 'required-file',
+      severity: 'error',
+      file: 'locales/',
+      message: 'No default locale file (locales/*.default.json) found',
+    });
+  }
+
+  // JSON files must parse
+  for (const file of files.filter(f => f.path.endsWith('.json'))) {
+    try {
+      JSON.parse(file.content.replace(/^\s*\/\*[\s\S]*?\*\//, ''));
+    } catch (error) {
+      issues.push({
+        check: 'invalid-json',
+        severity: 'error',
+        file: file.path,
+        message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      });
+    }
+  }
+
+  // Schemas
+  for (const file of files) {
+    if (/^(sections|blocks)\/[^/]+\.liquid$/.test(file.path)) {
+      validateLiquidSchema(file, issues);
+    } else if (file.path === 'config/settings_schema.json') {
+      validateSettingsSchema(file, issues);
+    }
+  }
+
+  // Locale keys used by the t filter
+  let localeKeys: Set<string> | null = null;
+  if (defaultLocale) {
+    try {
+      localeKeys = flattenLocale(JSON.parse(defaultLocale.content));
+    } catch {
+      localeKeys = null; // Reported by the JSON check
+    }
+  }
+
+  const liquidFiles = files.filter(f => f.path.endsWith('.liquid'));
+
+  for (const file of liquidFiles) {
+    if (localeKeys) {
+      for (const { key, index } of findTranslationKeys(file.content)) {
+        if (!localeKeys.has(key)) {
+          issues.push({
+            check: 'missing-locale-key',
+            severity: 'warning',
+            file: file.path,
+            line: lineAt(file.content, index),
+            message: `Translation key "${key}" is missing from ${defaultLocale!.path}`,
+          });
+        }
+      }
+    }
+
+    // Snippet references
+    const snippetPattern = /\b(?:render|include)\s+['"]([\w-]+)['"]/g;
+    for (const match of file.content.matchAll(snippetPattern)) {
+      if (!paths.has(`snippets/${match[1]}.liquid`)) {
+        issues.push({
+          check: 'missing-snippet',
+          severity: 'error',
+          file: file.path,
+          line: lineAt(file.content, match.index ?? 0),
+          message: `Snippet "${match[1]}" does not exist (snippets/${match[1]}.liquid)`,
+        });
+      }
+    }
+  }
+
+  // Section types referenced by JSON templates and section groups
+  const jsonTemplates = files.filter(f =>
+    (f.path.startsWith('templates/') && f.path.endsWith('.json')) ||
+    /^sections\/[\w-]+-group\.json$/.test(f.path)
+  );
+
+  for (const file of jsonTemplates) {
+    let data: { sections?: Record<string, { type?: string } | null> } | null;
+    try {
+      data = JSON.parse(file.content.replace(/^\s*\/\*[\s\S]*?\*\//, ''));
+    } catch {
+      continue; // Reported by the JSON check
+    }
+
+    for (const [id, section] of Object.entries(data?.sections ?? {})) {
+      // App blocks ("shopify://apps/...") are provided by installed apps, not theme files
+      if (section?.type?.startsWith('shopify://')) continue;
+
+      if (section?.type && !paths.has(`sections/${section.type}.liquid`)) {
+        issues.push({
+          check: 'missing-section',
+          severity: 'error',
+          file: file.path,
+          message: `Section "${id}" uses type "${section.type}" but sections/${section.type}.liquid does not exist`,
+        });
+      }
+    }
+  }
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return {
+    valid: errorCount === 0,
+    fileCount: files.length,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+export async function validateProject(
+  projectSlug: string,
+  locals: App.Locals
+): Promise<ValidationReport | null> {
+  const db = getDB(locals);
+
+  const project = await db
+    .prepare('SELECT id FROM projects WHERE slug = ?')
+    .bind(projectSlug)
+    .first<{ id: string }>();
+
+  if (!project) return null;
+
+  const files = await db
+    .prepare('SELECT file_path, content FROM project_files WHERE project_id = ? ORDER BY file_path')
+    .bind(project.id)
+    .all<{ file_path: string; content: string }>();
+
+  return validateThemeFiles(files.results.map(f => ({ path: f.file_path, content: f.content })));
+}
@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import {
+  generatePlaceholderSVG,
+  isPlaceholderCrop,
+  MAX_PLACEHOLDER_SIZE,
+} from '../../../lib/liquid/placeholder';
+
+/**
+ * Placeholder image for previews, drawn locally instead of fetched from a CDN
+ * GET /api/placeholder/800x600?text=Product&crop=top&bg=e2e8f0&fg=64748b
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  // "800x600", or "800" for a square
+  const match = (params.size || '').match(/^(\d+)(?:x(\d+))?$/);
+  const width = match ? parseInt(match[1], 10) : NaN;
+  const height = match?.[2] ? parseInt(match[2], 10) : width;
+
+  if (!width || !height || width > MAX_PLACEHOLDER_SIZE || height > MAX_PLACEHOLDER_SIZE) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: `Invalid size, expected WIDTHxHEIGHT up to ${MAX_PLACEHOLDER_SIZE}px`,
+      }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const url = new URL(request.url);
+  const crop = url.searchParams.get('crop');
+
+  const svg = generatePlaceholderSVG({
+    width,
+    height,
+    label: url.searchParams.get('text') || undefined,
+    crop: isPlaceholderCrop(crop) ? crop : undefined,
+    background: url.searchParams.get('bg') || undefined,
+    color: url.searchParams.get('fg') || undefined,
+  });
+
+  return new Response(svg, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/svg+xml',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+};
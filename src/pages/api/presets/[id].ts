@@ -3,7 +3,10 @@ import {
   getCustomPreset,
   updateCustomPreset,
   deleteCustomPreset,
+  findInvalidPresetColor,
+  findInvalidPresetFont,
 } from '../../../lib/presets/custom';
+import { analyzePresetContrast } from '../../../lib/presets/contrast';
 import { getPreset } from '../../../lib/presets/apply';
 
 // GET - Retrieve a preset
@@ -104,6 +107,22 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       buttons: body.buttons,
     };
 
+    const invalidColor = body.colors ? findInvalidPresetColor(body.colors) : undefined;
+    if (invalidColor) {
+      return new Response(
+        JSON.stringify({ error: `Invalid color for colors.${invalidColor}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const invalidFont = body.typography ? findInvalidPresetFont(body.typography) : undefined;
+    if (invalidFont) {
+      return new Response(
+        JSON.stringify({ error: `Unknown font for typography.${invalidFont}; use a Shopify font handle such as assistant_n4` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Remove undefined values
     Object.keys(updates).forEach((key) => {
       if (updates[key as keyof typeof updates] === undefined) {
@@ -124,7 +143,8 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
     }
 
     return new Response(
-      JSON.stringify({ success: true, preset }),
+      // Contrast problems are reported, not rejected, so work-in-progress presets can be saved
+      JSON.stringify({ success: true, preset, contrast: analyzePresetContrast(preset.colors) }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import { getAnyPreset } from '../../../lib/presets/apply';
+import { findInvalidPresetColor, getDefaultColors } from '../../../lib/presets/custom';
+import { analyzePresetContrast } from '../../../lib/presets/contrast';
+import type { ContrastLevel } from '../../../lib/presets/contrast';
+import type { PresetColors } from '../../../lib/db/schema';
+
+function parseLevel(value: unknown): ContrastLevel | null {
+  if (value === undefined || value === null || value === '') return 'AA';
+  return value === 'AA' || value === 'AAA' ? value : null;
+}
+
+/**
+ * Check a saved preset's colors against WCAG contrast ratios
+ * GET /api/presets/contrast?preset={slug}&level=AA|AAA
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const presetSlug = url.searchParams.get('preset');
+    const level = parseLevel(url.searchParams.get('level'));
+
+    if (!presetSlug) {
+      return new Response(
+        JSON.stringify({ error: 'Missing preset parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!level) {
+      return new Response(
+        JSON.stringify({ error: 'level must be AA or AAA' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const preset = await getAnyPreset(presetSlug, locals);
+
+    if (!preset) {
+      return new Response(
+        JSON.stringify({ error: 'Preset not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, preset: presetSlug, contrast: analyzePresetContrast(preset.colors, level) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to check preset contrast';
+    console.error('Preset contrast error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Check unsaved colors, as the preset editor does while colors change.
+ * Missing colors fall back to the default preset colors.
+ * POST /api/presets/contrast { colors, level? }
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = (await request.json()) as { colors?: Partial<PresetColors>; level?: string };
+    const level = parseLevel(body.level);
+
+    if (!body.colors || typeof body.colors !== 'object') {
+      return new Response(
+        JSON.stringify({ error: 'Colors object is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!level) {
+      return new Response(
+        JSON.stringify({ error: 'level must be AA or AAA' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const invalidColor = findInvalidPresetColor(body.colors);
+    if (invalidColor) {
+      return new Response(
+        JSON.stringify({ error: `Invalid color for colors.${invalidColor}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const colors = { ...getDefaultColors(), ...body.colors };
+
+    return new Response(
+      JSON.stringify({ success: true, contrast: analyzePresetContrast(colors, level) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to check contrast';
+    console.error('Contrast check error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
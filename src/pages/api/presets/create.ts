@@ -1,5 +1,6 @@
 import type { APIRoute } from 'astro';
-import { createCustomPreset } from '../../../lib/presets/custom';
+import { createCustomPreset, findInvalidPresetColor, findInvalidPresetFont } from '../../../lib/presets/custom';
+import { analyzePresetContrast } from '../../../lib/presets/contrast';
 import type { PresetColors, PresetTypography, PresetButtons } from '../../../lib/db/schema';
 
 interface CreatePresetBody {
@@ -30,6 +31,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    const invalidColor = findInvalidPresetColor(body.colors);
+    if (invalidColor) {
+      return new Response(
+        JSON.stringify({ error: `Invalid color for colors.${invalidColor}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (!body.typography || typeof body.typography !== 'object') {
       return new Response(
         JSON.stringify({ error: 'Typography object is required' }),
@@ -37,6 +46,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    const invalidFont = findInvalidPresetFont(body.typography);
+    if (invalidFont) {
+      return new Response(
+        JSON.stringify({ error: `Unknown font for typography.${invalidFont}; use a Shopify font handle such as assistant_n4` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (!body.buttons || typeof body.buttons !== 'object') {
       return new Response(
         JSON.stringify({ error: 'Buttons object is required' }),
@@ -57,7 +74,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
     );
 
     return new Response(
-      JSON.stringify({ success: true, preset }),
+      // Contrast problems are reported, not rejected, so work-in-progress presets can be saved
+      JSON.stringify({ success: true, preset, contrast: analyzePresetContrast(preset.colors) }),
       { status: 201, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (error) {
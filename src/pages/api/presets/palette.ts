@@ -0,0 +1,91 @@
+import type { APIRoute } from 'astro';
+import { generatePalette, isPaletteStyle, PALETTE_STYLES } from '../../../lib/presets/palette';
+import { createCustomPreset, getDefaultTypography, getDefaultButtons } from '../../../lib/presets/custom';
+import { generatePresetCSSVariables } from '../../../lib/presets/css';
+import { isColor } from '../../../lib/liquid/color';
+
+interface PaletteBody {
+  primary: string;
+  secondary?: string;
+  style?: string;
+  // Save the palette as a custom preset under this name
+  name?: string;
+  description?: string;
+  isGlobal?: boolean;
+}
+
+/**
+ * Generate preset colors from one or two brand colors
+ * POST /api/presets/palette { primary, secondary?, style?: light|dark|high-contrast, name? }
+ *
+ * Returns the colors with their contrast report and CSS variables for previewing.
+ * With a name, the palette is also saved as a custom preset with default typography and buttons.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = (await request.json()) as Partial<PaletteBody>;
+
+    if (!body.primary || !isColor(body.primary)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid primary color is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (body.secondary !== undefined && !isColor(body.secondary)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid secondary color' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (body.style !== undefined && !isPaletteStyle(body.style)) {
+      return new Response(
+        JSON.stringify({ error: `style must be one of: ${PALETTE_STYLES.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const palette = generatePalette({ primary: body.primary, secondary: body.secondary, style: body.style });
+    const css = generatePresetCSSVariables({ colors: palette.colors });
+
+    if (body.name === undefined) {
+      return new Response(
+        JSON.stringify({ success: true, palette, css }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return new Response(
+        JSON.stringify({ error: 'Name must not be empty' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const preset = await createCustomPreset(
+      {
+        name: body.name.trim(),
+        description: body.description?.trim(),
+        isGlobal: body.isGlobal ?? false,
+        colors: palette.colors,
+        typography: getDefaultTypography(),
+        buttons: getDefaultButtons(),
+      },
+      locals
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, palette, css, preset }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to generate palette';
+    console.error('Generate palette error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import type { APIRoute } from 'astro';
+import { getAnyPreset } from '../../../../lib/presets/apply';
+import { exportPresetTokens, isTokenFormat, TOKEN_FORMATS } from '../../../../lib/presets/tokens';
+import { generatePresetCSSVariables } from '../../../../lib/presets/css';
+
+/**
+ * Download a preset as design tokens or CSS variables
+ * GET /api/presets/tokens/export?preset={slug}&format=dtcg|tokens-studio|css
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const presetSlug = url.searchParams.get('preset');
+    const format = url.searchParams.get('format') ?? 'dtcg';
+
+    if (!presetSlug) {
+      return new Response(
+        JSON.stringify({ error: 'Missing preset parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (format !== 'css' && !isTokenFormat(format)) {
+      return new Response(
+        JSON.stringify({ error: `format must be one of: ${[...TOKEN_FORMATS, 'css'].join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const preset = await getAnyPreset(presetSlug, locals);
+
+    if (!preset) {
+      return new Response(
+        JSON.stringify({ error: 'Preset not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const filename = presetSlug.replace(/^custom:/, '');
+
+    if (format === 'css') {
+      return new Response(`/* ${preset.name} */\n${generatePresetCSSVariables(preset)}\n`, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/css',
+          'Content-Disposition': `attachment; filename="${filename}.css"`,
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(exportPresetTokens(preset, format), null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.tokens.json"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to export preset tokens';
+    console.error('Export preset tokens error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
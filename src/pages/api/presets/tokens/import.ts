@@ -0,0 +1,105 @@
+import type { APIRoute } from 'astro';
+import { createCustomPreset } from '../../../../lib/presets/custom';
+import {
+  applyTokenMapping,
+  isPresetTokenField,
+  parseDesignTokens,
+  suggestTokenMapping,
+} from '../../../../lib/presets/tokens';
+import type { TokenMapping } from '../../../../lib/presets/tokens';
+
+interface ImportTokensBody {
+  // Token file contents, parsed or as the raw JSON text
+  tokens: unknown;
+  // Overrides for the suggested mapping; an empty string unmaps a field
+  mapping?: Record<string, string>;
+  // Save the result as a custom preset under this name
+  name?: string;
+  description?: string;
+  isGlobal?: boolean;
+}
+
+/**
+ * Map a W3C Design Tokens or Tokens Studio file onto preset colors, typography and buttons
+ * POST /api/presets/tokens/import { tokens, mapping?, name? }
+ *
+ * Without a name this previews the import: the tokens found, the mapping used and the resulting
+ * preset values. Send the reviewed mapping back with a name to save it as a custom preset.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = (await request.json()) as Partial<ImportTokensBody>;
+
+    let file = body.tokens;
+    if (typeof file === 'string') {
+      try {
+        file = JSON.parse(file);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: 'tokens is not valid JSON' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const tokens = parseDesignTokens(file);
+    if (tokens.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No design tokens found' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const unknownField = Object.keys(body.mapping ?? {}).find(field => !isPresetTokenField(field));
+    if (unknownField) {
+      return new Response(
+        JSON.stringify({ error: `Unknown preset field in mapping: ${unknownField}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const mapping: TokenMapping = { ...suggestTokenMapping(tokens), ...body.mapping };
+    for (const [field, path] of Object.entries(mapping)) {
+      if (!path) delete mapping[field as keyof TokenMapping];
+    }
+
+    const { warnings, ...values } = applyTokenMapping(tokens, mapping);
+
+    if (body.name === undefined) {
+      return new Response(
+        JSON.stringify({ success: true, tokens, mapping, preset: values, warnings }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return new Response(
+        JSON.stringify({ error: 'Name must not be empty' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const preset = await createCustomPreset(
+      {
+        name: body.name.trim(),
+        description: body.description?.trim(),
+        isGlobal: body.isGlobal ?? false,
+        ...values,
+      },
+      locals
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, mapping, preset, warnings }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to import design tokens';
+    console.error('Import design tokens error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { duplicateProject } from '../../../lib/project/duplicate';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, name, storeUrl, description } = body;
+
+    if (!projectSlug || !name || typeof name !== 'string' || !name.trim()) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or name' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const project = await duplicateProject(projectSlug, { name, storeUrl, description }, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, project }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Duplicate project error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to duplicate project',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
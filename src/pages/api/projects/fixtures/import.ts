@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro';
+import { importProductCSV } from '../../../../lib/project/fixtures';
+
+/**
+ * Import fixture products from a Shopify product CSV export
+ * POST /api/projects/fixtures/import { projectSlug, csv, merge? }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, csv, merge } = body as {
+      projectSlug?: string;
+      csv?: string;
+      merge?: boolean;
+    };
+
+    if (!projectSlug || !csv) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or csv' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await importProductCSV(projectSlug, csv, { merge: Boolean(merge) }, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Import fixtures error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import CSV',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
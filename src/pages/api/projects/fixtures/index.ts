@@ -0,0 +1,119 @@
+import type { APIRoute } from 'astro';
+import { validateFixtures } from '../../../../lib/liquid/fixtures';
+import type { MockFixtures } from '../../../../lib/liquid/fixtures';
+import {
+  deleteProjectFixtures,
+  getProjectFixtures,
+  saveProjectFixtures,
+} from '../../../../lib/project/fixtures';
+
+/**
+ * Get a project's mock fixtures (null when it uses the default mock data)
+ * GET /api/projects/fixtures?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fixtures = await getProjectFixtures(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, fixtures }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get fixtures error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get fixtures',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Replace a project's mock fixtures
+ * POST /api/projects/fixtures { projectSlug, fixtures }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, fixtures } = body as {
+      projectSlug?: string;
+      fixtures?: unknown;
+    };
+
+    if (!projectSlug || fixtures === undefined) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or fixtures' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const errors = validateFixtures(fixtures);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid fixtures', errors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const saved = await saveProjectFixtures(projectSlug, fixtures as MockFixtures, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, fixtures: saved }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Save fixtures error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save fixtures',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Remove a project's fixtures, going back to the default mock data
+ * DELETE /api/projects/fixtures?project={slug}
+ */
+export const DELETE: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const deleted = await deleteProjectFixtures(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, deleted }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Delete fixtures error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete fixtures',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
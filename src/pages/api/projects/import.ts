@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { importThemeZip } from '../../../lib/project/import';
+import { getErrorStatus } from '../../../lib/project/errors';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('theme');
+    const name = formData.get('name')?.toString() || '';
+    const storeUrl = formData.get('storeUrl')?.toString() || undefined;
+    const description = formData.get('description')?.toString() || undefined;
+
+    if (!name.trim()) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Project name is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Theme ZIP file is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const zipData = new Uint8Array(await file.arrayBuffer());
+    const result = await importThemeZip(zipData, { name, storeUrl, description }, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Import theme error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import theme',
+      }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
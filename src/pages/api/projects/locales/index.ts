@@ -0,0 +1,82 @@
+import type { APIRoute } from 'astro';
+import { addProjectLocale, listProjectLocales } from '../../../../lib/project/locales';
+import { isLocaleCode } from '../../../../lib/liquid/locales';
+import { getErrorStatus } from '../../../../lib/project/errors';
+
+/**
+ * List project locales with translation completeness
+ * GET /api/projects/locales?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const locales = await listProjectLocales(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, locales }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('List locales error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list locales',
+      }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Add a locale to a project
+ * POST /api/projects/locales { projectSlug, code, copyDefault? }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, code, copyDefault } = body as {
+      projectSlug?: string;
+      code?: string;
+      copyDefault?: boolean;
+    };
+
+    if (!projectSlug || !code) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or code' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isLocaleCode(code)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Invalid locale code "${code}"` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const locale = await addProjectLocale(projectSlug, code, { copyDefault: Boolean(copyDefault) }, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, locale }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Add locale error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add locale',
+      }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
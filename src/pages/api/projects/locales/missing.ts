@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { getProjectMissingTranslations } from '../../../../lib/liquid/locales';
+import { getErrorStatus } from '../../../../lib/project/errors';
+
+/**
+ * Translation keys missing from each project locale
+ * GET /api/projects/locales/missing?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const report = await getProjectMissingTranslations(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, report }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to check translations';
+    console.error('Missing translations error:', error);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,89 @@
+import type { APIRoute } from 'astro';
+import { findInvalidTranslation, getTranslationTable, updateTranslations } from '../../../../lib/project/locales';
+import { getErrorStatus } from '../../../../lib/project/errors';
+
+/**
+ * Translation keys with each locale's value
+ * GET /api/projects/locales/translations?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const table = await getTranslationTable(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, ...table }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get translations error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get translations',
+      }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Update translations for one locale; empty values remove the key
+ * POST /api/projects/locales/translations { projectSlug, locale, translations }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, locale, translations } = body as {
+      projectSlug?: string;
+      locale?: string;
+      translations?: Record<string, string | null>;
+    };
+
+    if (!projectSlug || !locale) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or locale' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!translations || typeof translations !== 'object') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Translations object is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const invalidKey = findInvalidTranslation(translations);
+    if (invalidKey !== null) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Invalid translation for "${invalidKey}"` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const summary = await updateTranslations(projectSlug, locale, translations, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, locale: summary }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Update translations error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update translations',
+      }),
+      { status: getErrorStatus(error), headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,117 @@
+import type { APIRoute } from 'astro';
+import {
+  addMetaobjectToProject,
+  getProjectMetaobjectDefinitions,
+  removeMetaobjectFromProject,
+} from '../../../../lib/project/metaobjects';
+
+/**
+ * List the metaobject definitions a project uses
+ * GET /api/projects/metaobjects?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const definitions = await getProjectMetaobjectDefinitions(projectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, definitions }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get metaobjects error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get metaobjects',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Add a library metaobject definition to a project
+ * POST /api/projects/metaobjects { projectSlug, metaobjectSlug }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, metaobjectSlug } = body as {
+      projectSlug?: string;
+      metaobjectSlug?: string;
+    };
+
+    if (!projectSlug || !metaobjectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or metaobjectSlug' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await addMetaobjectToProject(projectSlug, metaobjectSlug, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Metaobject added to project' }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Add metaobject error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add metaobject',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * Remove a metaobject definition from a project
+ * DELETE /api/projects/metaobjects?project={slug}&metaobject={slug}
+ */
+export const DELETE: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+    const metaobjectSlug = url.searchParams.get('metaobject');
+
+    if (!projectSlug || !metaobjectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project or metaobject parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const removed = await removeMetaobjectFromProject(projectSlug, metaobjectSlug, locals);
+
+    if (!removed) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Metaobject "${metaobjectSlug}" is not in project "${projectSlug}"` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Remove metaobject error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove metaobject',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { generateMetaobjectManifest } from '../../../../lib/project/metaobjects';
+
+/**
+ * Download the metaobject definitions to create in the store alongside the theme ZIP
+ * GET /api/projects/metaobjects/manifest?project={slug}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const manifest = await generateMetaobjectManifest(projectSlug, locals);
+
+    return new Response(JSON.stringify(manifest, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${projectSlug}-metaobjects.json"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to generate metaobject manifest';
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { diffRevisions } from '../../../../lib/project/revisions';
+
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+    const from = parseInt(url.searchParams.get('from') ?? '', 10);
+    const to = parseInt(url.searchParams.get('to') ?? '', 10);
+
+    if (!projectSlug || isNaN(from) || isNaN(to)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project, from or to parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const diff = await diffRevisions(projectSlug, from, to, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, diff }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Diff revisions error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to diff revisions',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
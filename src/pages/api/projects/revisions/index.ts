@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { getFileRevision, listFileRevisions } from '../../../../lib/project/revisions';
+
+// List revisions for a project (optionally one file), or fetch one revision with its content
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const projectSlug = url.searchParams.get('project');
+    const filePath = url.searchParams.get('file') ?? undefined;
+    const revisionId = url.searchParams.get('revision');
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing project parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (revisionId) {
+      const revision = await getFileRevision(projectSlug, parseInt(revisionId, 10), locals);
+
+      if (!revision) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Revision not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, revision }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const revisions = await listFileRevisions(projectSlug, filePath, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, revisions }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('List revisions error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list revisions',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
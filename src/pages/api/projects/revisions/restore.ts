@@ -0,0 +1,43 @@
+import type { APIRoute } from 'astro';
+import { restoreFileRevision, restoreProjectToTime } from '../../../../lib/project/revisions';
+
+// Restore one file from a revision ({ revisionId }) or the whole project to a point in time ({ timestamp })
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, revisionId, timestamp, author, reason } = body;
+
+    if (!projectSlug || typeof projectSlug !== 'string') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Project slug is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (typeof revisionId !== 'number' && (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp)))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Either revisionId or a valid ISO timestamp is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const options = { author, reason };
+    const result = typeof revisionId === 'number'
+      ? await restoreFileRevision(projectSlug, revisionId, options, locals)
+      : await restoreProjectToTime(projectSlug, new Date(timestamp).toISOString(), options, locals);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore revision',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import {
+  getProjectSectionGroups,
+  isSectionGroupName,
+  setSectionGroup,
+} from '../../../lib/project/section-groups';
+
+// List header/footer group membership for a project
+export const GET: APIRoute = async ({ url, locals }) => {
+  const projectSlug = url.searchParams.get('project');
+
+  if (!projectSlug) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Project slug is required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const groups = await getProjectSectionGroups(projectSlug, locals);
+
+    if (!groups) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, groups }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get section groups error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load section groups',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Move a section into a group, or back to templates with group: null
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, sectionSlug, group } = body;
+
+    if (!projectSlug || !sectionSlug) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or sectionSlug' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (group !== null && !isSectionGroupName(group)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Group must be "header-group", "footer-group" or null' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const updated = await setSectionGroup(projectSlug, sectionSlug, group, locals);
+
+    if (!updated) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Section not found in project' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Set section group error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update section group',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,62 @@
+import type { APIRoute } from 'astro';
+import { updateProject } from '../../../lib/project/create';
+import { listProjectTemplates } from '../../../lib/project/duplicate';
+
+// List starter templates
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const templates = await listProjectTemplates(locals);
+
+    return new Response(
+      JSON.stringify({ success: true, templates }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('List templates error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list templates',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Mark or unmark a project as a starter template
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json();
+    const { projectSlug, isTemplate } = body;
+
+    if (!projectSlug || typeof isTemplate !== 'boolean') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing projectSlug or isTemplate' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const project = await updateProject(projectSlug, { isTemplate }, locals);
+
+    if (!project) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, project }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Update template flag error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update project',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
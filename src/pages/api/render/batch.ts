@@ -4,9 +4,10 @@ import { renderSectionsBatch } from '../../../lib/liquid';
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body = await request.json();
-    const { sections, presetSlug } = body as {
+    const { sections, presetSlug, projectSlug } = body as {
       sections?: string[];
       presetSlug?: string;
+      projectSlug?: string;
     };
 
     // Validate required parameters
@@ -36,7 +37,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Render all sections
     const startTime = performance.now();
-    const resultsMap = await renderSectionsBatch(sections, presetSlug, locals);
+    const resultsMap = await renderSectionsBatch(sections, presetSlug, locals, projectSlug);
     const totalTime = Math.round(performance.now() - startTime);
 
     // Convert Map to array of results
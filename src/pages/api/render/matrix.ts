@@ -0,0 +1,274 @@
+import type { APIRoute } from 'astro';
+import { renderScenarioMatrix, parseScenarioNames, resolveScenarios, isLocaleCode, escapeHtml, MAX_MATRIX_CELLS } from '../../../lib/liquid';
+import type { ScenarioMatrixCell } from '../../../lib/liquid';
+import { trackApiRequest } from '../../../lib/sentry';
+
+// Standalone document for one cell, as /api/render/section serves it
+function renderCellDocument(cell: ScenarioMatrixCell, locale: string): string {
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; padding: 0; font-family: system-ui, -apple-system, sans-serif; }
+    ${cell.result.css}
+  </style>
+</head>
+<body>
+  ${cell.result.html}
+</body>
+</html>`;
+}
+
+/**
+ * Render one section under several preview scenarios
+ * POST /api/render/matrix { sectionSlug | projectSlug + projectSectionId, presetSlug?, matrix?: string[][] }
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const startTime = Date.now();
+
+  try {
+    const body = await request.json();
+    const { sectionSlug, projectSectionId, presetSlug, projectSlug, customSettings, locale, currency, seed, matrix } = body as {
+      sectionSlug?: string;
+      projectSectionId?: number;
+      presetSlug?: string;
+      projectSlug?: string;
+      customSettings?: Record<string, unknown>;
+      locale?: string;
+      currency?: string;
+      seed?: number | string;
+      matrix?: (string[] | string)[];
+    };
+
+    if (!sectionSlug && !(projectSectionId && projectSlug)) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required parameter: sectionSlug or projectSlug with projectSectionId' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (locale !== undefined && !isLocaleCode(locale)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid locale "${locale}"` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (matrix !== undefined && !Array.isArray(matrix)) {
+      return new Response(
+        JSON.stringify({ error: 'matrix must be an array of scenario lists' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (matrix && matrix.length > MAX_MATRIX_CELLS) {
+      return new Response(
+        JSON.stringify({ error: `Scenario matrix exceeds maximum of ${MAX_MATRIX_CELLS} cells` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const cells = matrix?.map(cell => parseScenarioNames(cell));
+
+    try {
+      cells?.forEach(resolveScenarios);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid scenarios' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const results = await renderScenarioMatrix({
+      sectionSlug,
+      projectSectionId,
+      presetSlug,
+      projectSlug,
+      customSettings,
+      locale,
+      currency,
+      seed,
+      matrix: cells,
+      locals,
+    });
+
+    const durationMs = Date.now() - startTime;
+    trackApiRequest('/api/render/matrix', 'POST', 200, durationMs);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        cells: results.map(cell => ({
+          scenarios: cell.scenarios,
+          label: cell.label,
+          viewport: cell.viewport,
+          html: cell.result.html,
+          css: cell.result.css,
+          errors: cell.result.errors,
+          renderTimeMs: cell.result.renderTimeMs,
+          cached: cell.result.cached,
+        })),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Render matrix error:', error);
+
+    const durationMs = Date.now() - startTime;
+    trackApiRequest('/api/render/matrix', 'POST', 500, durationMs);
+
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * Scenario matrix as a page of side-by-side previews
+ * GET /api/render/matrix?section={slug}&cell=guest,empty-cart&cell=logged-in,full-cart
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  const sectionSlug = url.searchParams.get('section') ?? undefined;
+  const presetSlug = url.searchParams.get('preset') ?? undefined;
+  const projectSlug = url.searchParams.get('project') ?? undefined;
+  const projectSectionId = Number(url.searchParams.get('projectSection')) || undefined;
+  const locale = url.searchParams.get('locale') ?? undefined;
+  const currency = url.searchParams.get('currency') ?? undefined;
+  const seed = url.searchParams.get('seed') ?? undefined;
+  const cells = url.searchParams.getAll('cell').map(cell => parseScenarioNames(cell));
+
+  if (!sectionSlug && !(projectSectionId && projectSlug)) {
+    return new Response(
+      '<html><body><p>Missing section parameter</p></body></html>',
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  if (cells.length > MAX_MATRIX_CELLS) {
+    return new Response(
+      `<html><body><p>Scenario matrix exceeds maximum of ${MAX_MATRIX_CELLS} cells</p></body></html>`,
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  try {
+    cells.forEach(resolveScenarios);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid scenarios';
+    return new Response(
+      `<html><body><p>${escapeHtml(message)}</p></body></html>`,
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  // The locale ends up in each cell document's lang attribute
+  if (locale !== undefined && !isLocaleCode(locale)) {
+    return new Response(
+      '<html><body><p>Invalid locale parameter</p></body></html>',
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  try {
+    const results = await renderScenarioMatrix({
+      sectionSlug,
+      projectSectionId,
+      presetSlug,
+      projectSlug,
+      locale,
+      currency,
+      seed,
+      matrix: cells.length > 0 ? cells : undefined,
+      locals,
+    });
+
+    const title = escapeHtml(sectionSlug ?? `Project section ${projectSectionId}`);
+    const figures = results.map(cell => `
+    <figure class="cell cell--${cell.viewport}">
+      <figcaption>
+        <strong>${escapeHtml(cell.label)}</strong>
+        <span>${cell.result.renderTimeMs}ms${cell.result.cached ? ' (cached)' : ''}</span>
+        ${cell.result.errors.map(error => `<em>${escapeHtml(error)}</em>`).join('')}
+      </figcaption>
+      <iframe srcdoc="${escapeHtml(renderCellDocument(cell, locale ?? 'en'))}" sandbox="allow-same-origin" title="${escapeHtml(cell.label)}"></iframe>
+    </figure>`).join('');
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Scenarios: ${title}</title>
+  <style>
+    body { margin: 0; padding: 24px; font-family: system-ui, -apple-system, sans-serif; background: #f1f5f9; color: #0f172a; }
+    h1 { font-size: 20px; margin: 0 0 16px; }
+    .matrix { display: flex; flex-wrap: wrap; gap: 24px; align-items: flex-start; }
+    .cell { margin: 0; background: white; border: 1px solid #e2e8f0; border-radius: 12px; overflow: hidden; }
+    .cell--desktop { width: min(100%, 960px); }
+    .cell--mobile { width: 375px; }
+    figcaption { display: flex; flex-wrap: wrap; gap: 8px; align-items: baseline; padding: 8px 12px; border-bottom: 1px solid #e2e8f0; font-size: 13px; }
+    figcaption span { color: #64748b; }
+    figcaption em { flex-basis: 100%; color: #dc2626; font-style: normal; }
+    iframe { display: block; width: 100%; height: 480px; border: 0; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <div class="matrix">${figures}
+  </div>
+</body>
+</html>`;
+
+    return new Response(html, {
+      status: 200,
+      headers: { 'Content-Type': 'text/html' },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      `<html><body><p>Render error: ${escapeHtml(message)}</p></body></html>`,
+      {
+        status: 500,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+};
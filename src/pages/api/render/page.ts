@@ -0,0 +1,203 @@
+import type { APIRoute } from 'astro';
+import { renderPage, normalizeTemplatePath, isLocaleCode, escapeHtml, toScriptJSON } from '../../../lib/liquid';
+import { getProjectFile } from '../../../lib/project/files';
+import { trackApiRequest } from '../../../lib/sentry';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const startTime = Date.now();
+
+  try {
+    const body = await request.json();
+    const { projectSlug, template, presetSlug, locale, currency, seed, page } = body as {
+      projectSlug?: string;
+      template?: string;
+      presetSlug?: string;
+      locale?: string;
+      currency?: string;
+      seed?: number | string;
+      page?: number;
+    };
+
+    if (!projectSlug) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required parameter: projectSlug' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (locale !== undefined && !isLocaleCode(locale)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid locale "${locale}"` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const templatePath = normalizeTemplatePath(template || 'index');
+    if (!(await getProjectFile(projectSlug, templatePath, locals))) {
+      return new Response(
+        JSON.stringify({ error: `Template "${templatePath}" not found in project "${projectSlug}"` }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = await renderPage({
+      projectSlug,
+      template: template || 'index',
+      presetSlug,
+      locale,
+      currency,
+      seed,
+      page,
+      locals,
+    });
+
+    const durationMs = Date.now() - startTime;
+    trackApiRequest('/api/render/page', 'POST', 200, durationMs);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        html: result.html,
+        css: result.css,
+        errors: result.errors,
+        sections: result.sections,
+        renderTimeMs: result.renderTimeMs,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Page render API error:', error);
+
+    const durationMs = Date.now() - startTime;
+    trackApiRequest('/api/render/page', 'POST', 500, durationMs);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: message,
+        html: '',
+        css: '',
+        errors: [message],
+        sections: [],
+        renderTimeMs: 0,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+// GET endpoint for direct iframe loading
+export const GET: APIRoute = async ({ url, locals }) => {
+  const projectSlug = url.searchParams.get('project');
+  const template = url.searchParams.get('template') ?? 'index';
+  const presetSlug = url.searchParams.get('preset') ?? undefined;
+  const locale = url.searchParams.get('locale') ?? undefined;
+  const currency = url.searchParams.get('currency') ?? undefined;
+  const seed = url.searchParams.get('seed') ?? undefined;
+  const page = Number(url.searchParams.get('page')) || undefined;
+
+  if (!projectSlug) {
+    return new Response(
+      '<html><body><p>Missing project parameter</p></body></html>',
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  if (locale !== undefined && !isLocaleCode(locale)) {
+    return new Response(
+      '<html><body><p>Invalid locale parameter</p></body></html>',
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  try {
+    const templatePath = normalizeTemplatePath(template);
+    if (!(await getProjectFile(projectSlug, templatePath, locals))) {
+      return new Response(
+        `<html><body><p>Template ${escapeHtml(templatePath)} not found</p></body></html>`,
+        {
+          status: 404,
+          headers: { 'Content-Type': 'text/html' },
+        }
+      );
+    }
+
+    const result = await renderPage({ projectSlug, template, presetSlug, locale, currency, seed, page, locals });
+
+    // The layout renders the full document; inject preview styles and errors into it
+    let html = result.html;
+    const extras = [
+      result.css ? `<style>${result.css}</style>` : '',
+      result.errors.length > 0 ? `<script>console.warn('Render errors:', ${toScriptJSON(result.errors)})</script>` : '',
+      // Pagination links point at store URLs; follow them by re-rendering the preview at that page
+      `<script>
+document.addEventListener('click', (event) => {
+  const link = event.target.closest && event.target.closest('a[href*="page="]');
+  if (!link) return;
+  const page = new URL(link.href, location.href).searchParams.get('page');
+  if (!page) return;
+  event.preventDefault();
+  const url = new URL(location.href);
+  url.searchParams.set('page', page);
+  location.href = url.toString();
+});
+</script>`,
+    ].join('');
+
+    if (html.includes('</head>')) {
+      html = html.replace('</head>', `${extras}</head>`);
+    } else {
+      html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Preview: ${escapeHtml(template)}</title>
+  ${extras}
+</head>
+<body>
+  ${html}
+</body>
+</html>`;
+    }
+
+    return new Response(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html',
+        'X-Render-Time': result.renderTimeMs.toString(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      `<html><body><p>Render error: ${escapeHtml(message)}</p></body></html>`,
+      {
+        status: 500,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+};
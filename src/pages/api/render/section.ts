@@ -1,5 +1,13 @@
 import type { APIRoute } from 'astro';
-import { renderSection } from '../../../lib/liquid';
+import {
+  renderSection,
+  renderProjectSection,
+  parseScenarioNames,
+  resolveScenarios,
+  isLocaleCode,
+  escapeHtml,
+  toScriptJSON,
+} from '../../../lib/liquid';
 import { trackApiRequest, trackSectionRender } from '../../../lib/sentry';
 
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -7,17 +15,25 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   try {
     const body = await request.json();
-    const { sectionSlug, presetSlug, customSettings, skipCache } = body as {
+    const { sectionSlug, projectSectionId, presetSlug, projectSlug, customSettings, locale, currency, seed, page, skipCache } = body as {
       sectionSlug?: string;
+      projectSectionId?: number;
       presetSlug?: string;
+      projectSlug?: string;
       customSettings?: Record<string, unknown>;
+      locale?: string;
+      currency?: string;
+      seed?: number | string;
+      scenarios?: string[] | string;
+      page?: number;
       skipCache?: boolean;
     };
+    const scenarios = parseScenarioNames(body.scenarios);
 
     // Validate required parameters
-    if (!sectionSlug) {
+    if (!sectionSlug && !projectSectionId) {
       return new Response(
-        JSON.stringify({ error: 'Missing required parameter: sectionSlug' }),
+        JSON.stringify({ error: 'Missing required parameter: sectionSlug or projectSectionId' }),
         {
           status: 400,
           headers: { 'Content-Type': 'application/json' },
@@ -25,19 +41,71 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // Render the section
-    const result = await renderSection({
-      sectionSlug,
-      presetSlug,
-      customSettings,
-      locals,
-      skipCache: skipCache ?? false,
-    });
+    if (projectSectionId && !projectSlug) {
+      return new Response(
+        JSON.stringify({ error: 'projectSlug is required with projectSectionId' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    try {
+      resolveScenarios(scenarios);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid scenarios' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (locale !== undefined && !isLocaleCode(locale)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid locale "${locale}"` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Project sections render with their saved settings, schema and Liquid
+    const result = projectSectionId && projectSlug
+      ? await renderProjectSection({
+          projectSlug,
+          projectSectionId,
+          presetSlug,
+          customSettings,
+          locale,
+          currency,
+          seed,
+          scenarios,
+          page,
+          locals,
+          skipCache: skipCache ?? false,
+        })
+      : await renderSection({
+          sectionSlug: sectionSlug!,
+          presetSlug,
+          projectSlug,
+          customSettings,
+          locale,
+          currency,
+          seed,
+          scenarios,
+          page,
+          locals,
+          skipCache: skipCache ?? false,
+        });
 
     // Track metrics
     const durationMs = Date.now() - startTime;
     trackApiRequest('/api/render/section', 'POST', 200, durationMs);
-    trackSectionRender(sectionSlug, result.renderTimeMs, result.cached);
+    trackSectionRender(sectionSlug ?? `project-section-${projectSectionId}`, result.renderTimeMs, result.cached);
 
     return new Response(
       JSON.stringify({
@@ -88,6 +156,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 export const GET: APIRoute = async ({ url, locals }) => {
   const sectionSlug = url.searchParams.get('section');
   const presetSlug = url.searchParams.get('preset') ?? undefined;
+  const projectSlug = url.searchParams.get('project') ?? undefined;
+  const projectSectionId = Number(url.searchParams.get('projectSection')) || undefined;
+  const locale = url.searchParams.get('locale') ?? undefined;
+  const currency = url.searchParams.get('currency') ?? undefined;
+  const seed = url.searchParams.get('seed') ?? undefined;
+  const scenarios = parseScenarioNames(url.searchParams.get('scenario'));
+  const page = Number(url.searchParams.get('page')) || undefined;
   const settingsParam = url.searchParams.get('settings');
   const viewport = url.searchParams.get('viewport') ?? 'desktop';
 
@@ -101,7 +176,7 @@ export const GET: APIRoute = async ({ url, locals }) => {
     }
   }
 
-  if (!sectionSlug) {
+  if (!sectionSlug && !(projectSectionId && projectSlug)) {
     return new Response(
       '<html><body><p>Missing section parameter</p></body></html>',
       {
@@ -112,20 +187,52 @@ export const GET: APIRoute = async ({ url, locals }) => {
   }
 
   try {
-    const result = await renderSection({
-      sectionSlug,
-      presetSlug,
-      customSettings,
-      locals,
-    });
+    resolveScenarios(scenarios);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid scenarios';
+    return new Response(
+      `<html><body><p>${escapeHtml(message)}</p></body></html>`,
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  // The locale ends up in the document's lang attribute
+  if (locale !== undefined && !isLocaleCode(locale)) {
+    return new Response(
+      '<html><body><p>Invalid locale parameter</p></body></html>',
+      {
+        status: 400,
+        headers: { 'Content-Type': 'text/html' },
+      }
+    );
+  }
+
+  try {
+    const result = projectSectionId && projectSlug
+      ? await renderProjectSection({ projectSlug, projectSectionId, presetSlug, customSettings, locale, currency, seed, scenarios, page, locals })
+      : await renderSection({
+          sectionSlug: sectionSlug!,
+          presetSlug,
+          projectSlug,
+          customSettings,
+          locale,
+          currency,
+          seed,
+          scenarios,
+          page,
+          locals,
+        });
 
     // Return full HTML document for iframe
     const html = `<!DOCTYPE html>
-<html lang="en">
+<html lang="${locale ?? 'en'}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Preview: ${sectionSlug}</title>
+  <title>Preview: ${escapeHtml(sectionSlug ?? String(projectSectionId))}</title>
   <style>
     * {
       box-sizing: border-box;
@@ -140,7 +247,20 @@ export const GET: APIRoute = async ({ url, locals }) => {
 </head>
 <body>
   ${result.html}
-  ${result.errors.length > 0 ? `<script>console.warn('Render errors:', ${JSON.stringify(result.errors)})</script>` : ''}
+  ${result.errors.length > 0 ? `<script>console.warn('Render errors:', ${toScriptJSON(result.errors)})</script>` : ''}
+  <script>
+    // Pagination links point at store URLs; follow them by re-rendering the preview at that page
+    document.addEventListener('click', (event) => {
+      const link = event.target.closest && event.target.closest('a[href*="page="]');
+      if (!link) return;
+      const page = new URL(link.href, location.href).searchParams.get('page');
+      if (!page) return;
+      event.preventDefault();
+      const url = new URL(location.href);
+      url.searchParams.set('page', page);
+      location.href = url.toString();
+    });
+  </script>
 </body>
 </html>`;
 
@@ -156,7 +276,7 @@ export const GET: APIRoute = async ({ url, locals }) => {
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
-      `<html><body><p>Render error: ${message}</p></body></html>`,
+      `<html><body><p>Render error: ${escapeHtml(message)}</p></body></html>`,
       {
         status: 500,
         headers: { 'Content-Type': 'text/html' },